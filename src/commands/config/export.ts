@@ -1,6 +1,7 @@
 import { Command, flags, run as runCommand } from '@oclif/command'
 import { ExportOptions, exportPsqrConfig } from '../../functions/config';
 import { createFiles, FileConfig } from '../../functions/utility';
+import { unlockIdentity } from '../../functions/identity';
 
 const ora = require('ora');
 
@@ -42,6 +43,11 @@ export default class ConfigExport extends Command {
         if (typeof flags.network !== 'undefined') options.network = flags.network;
 
         oraStart.succeed('Command ready');
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(options.did);
+        if (unlock.success === false) return ora().fail(unlock.message);
+
         const oraGen = ora(`Generating config for ${options.did}...`).start();
 
         // generate export object
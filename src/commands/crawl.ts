@@ -4,6 +4,7 @@ import {getVars} from '../functions/env';
 
 import {FeedList, crawlFeeds, signCrawledPosts, crawlLgr, assembleCrawlConfigs, crawlTypes, CrawlType} from '../functions/crawl'
 import {PutConfig, putMultiplePosts} from '../functions/post';
+import {unlockIdentity, verifyKeyGrant} from '../functions/identity';
 import {DataResponse, ProxyConfig} from '../types/interfaces';
 import {JwsPost} from '../types/post';
 
@@ -26,6 +27,7 @@ If you want to crawl multiple configs use stdin or set them as the defaults.
         proxy: flags.boolean({char: 'p', default: false, description: 'Use a proxy for each request'}),
         stdin: flags.boolean({char: 's', default: false, description: 'Use STDIN input as a list of newline separated DIDs. They are assumed to all be the same type.'}),
         broadcasters: flags.string({char: 'b', description: 'Comma (,) separated list of domains of Broadcaster(s) to publish to instead of the defaults'}),
+        force: flags.boolean({char: 'f', default: false, description: 'Sign even if the keys are not granted publish in their DID docs'}),
     }
 
     static args = [
@@ -99,6 +101,19 @@ If you want to crawl multiple configs use stdin or set them as the defaults.
         }
 
         oraConfigs.succeed('Configs found');
+
+        // request passphrase if any of the keys are encrypted
+        for (let i = 0; i < configs.length; i++) {
+            const unlock = await unlockIdentity(configs[i].kid);
+            if (unlock.success === false) return ora().fail(unlock.message);
+        }
+
+        // ensure the keys are allowed to publish before crawling and signing
+        for (let i = 0; i < configs.length && flags.force === false; i++) {
+            const gResp = await verifyKeyGrant(configs[i].kid);
+            if (gResp.success === false) return ora().fail(gResp.message + ', use --force to sign anyway');
+        }
+
         const oraCreate = ora('Getting Feed Posts...').start();
 
         // crawl feeds and get posts
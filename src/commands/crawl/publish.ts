@@ -4,7 +4,8 @@ import { getVars } from '../../functions/env';
 import { CrawlConfig, crawlPath, removeCrawledPosts, signCrawledPosts, crawlLgr, crawlTypes, CrawlType, assembleCrawlConfigs, FeedList } from '../../functions/crawl';
 import { PutConfig, putMultiplePosts } from '../../functions/post';
 import { generateLogger } from '../../functions/utility';
-import { parseBareDid } from '../../functions/identity';
+import { parseBareDid, unlockIdentity, verifyKeyGrant } from '../../functions/identity';
+import { setPassphrase } from '../../functions/keystore';
 
 const getStdin = require('get-stdin');
 const ora = require('ora');
@@ -24,6 +25,8 @@ published to the broadcasters, and then deleted unless otherwise specified.
         broadcasters: flags.string({ char: 'b', description: 'Colon (:) separated list of domains of Broadcaster(s) to publish to instead of the defaults' }),
         keep: flags.boolean({ char: 'k', default: false, description: 'Keep the posts stored with the crawler once they have been published' }),
         stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as a list of newline separated DIDs.' }),
+        passphraseStdin: flags.boolean({ default: false, description: 'Use STDIN input as the passphrase of encrypted keys' }),
+        force: flags.boolean({ char: 'f', default: false, description: 'Sign even if the keys are not granted publish in their DID docs' }),
     }
 
     static args = [
@@ -40,6 +43,12 @@ published to the broadcasters, and then deleted unless otherwise specified.
 
     async run() {
         const { args, flags } = this.parse(CrawlPublish)
+
+        // read the passphrase before STDIN is used for anything else
+        if (flags.passphraseStdin === true) {
+            if (flags.stdin === true) return ora().fail('Unable to use STDIN for both the passphrase and DIDs');
+            setPassphrase(await getStdin());
+        }
         const env = getVars();
 
         const oraStart = ora('Preparing command...').start();
@@ -81,6 +90,19 @@ published to the broadcasters, and then deleted unless otherwise specified.
         if (configs.length === 0) return oraConfigs.fail('No Configs found');
 
         oraConfigs.succeed('Configs found');
+
+        // request passphrase if any of the keys are encrypted
+        for (let i = 0; i < configs.length; i++) {
+            const unlock = await unlockIdentity(configs[i].kid);
+            if (unlock.success === false) return ora().fail(unlock.message);
+        }
+
+        // ensure the keys are allowed to publish before signing
+        for (let i = 0; i < configs.length && flags.force === false; i++) {
+            const gResp = await verifyKeyGrant(configs[i].kid);
+            if (gResp.success === false) return ora().fail(gResp.message + ', use --force to sign anyway');
+        }
+
         const oraSign = ora('Signing Posts...').start();
 
         const posts = [];
@@ -3,7 +3,7 @@ import { Static } from 'runtypes';
 
 import { FeedList, crawlFeeds, crawlTypes, CrawlType, assembleCrawlConfigs } from '../../functions/crawl'
 import { getVars } from '../../functions/env';
-import { parseBareDid } from '../../functions/identity';
+import { parseBareDid, unlockIdentity } from '../../functions/identity';
 import { createFiles, FileConfig } from '../../functions/utility';
 import { ProxyConfig } from '../../types/interfaces';
 import { Post } from '../../types/post';
@@ -101,6 +101,13 @@ or locally if specified.
         }
 
         oraConfigs.succeed('Configs found');
+
+        // request passphrase if any of the keys are encrypted
+        for (let i = 0; i < configs.length; i++) {
+            const unlock = await unlockIdentity(configs[i].kid);
+            if (unlock.success === false) return ora().fail(unlock.message);
+        }
+
         const oraCreate = ora('Getting Feed Posts...').start();
 
         // crawl feeds and get posts
@@ -4,7 +4,7 @@ import { getVars } from '../../functions/env';
 import { FeedList, crawlFeeds, assembleCrawlConfigs, crawlTypes, CrawlType } from '../../functions/crawl'
 import { ProxyConfig } from '../../types/interfaces';
 import { createFiles, FileConfig } from '../../functions/utility';
-import { parseBareDid } from '../../functions/identity';
+import { parseBareDid, unlockIdentity } from '../../functions/identity';
 
 const getStdin = require('get-stdin');
 const ora = require('ora');
@@ -112,6 +112,13 @@ Output is saved as a local file(s) with the name crawl-test-{ level }-{ path val
         }
 
         oraConfigs.succeed('Configs found');
+
+        // request passphrase if any of the keys are encrypted
+        for (let i = 0; i < configs.length; i++) {
+            const unlock = await unlockIdentity(configs[i].kid);
+            if (unlock.success === false) return ora().fail(unlock.message);
+        }
+
         const oraCreate = ora(`Getting test data for level ${testLevel} ...`).start();
 
         // crawl feeds and get posts
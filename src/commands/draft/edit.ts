@@ -0,0 +1,78 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+import { existsSync, readFileSync, writeFileSync, unlinkSync } from 'fs';
+import { spawnSync } from 'child_process';
+import { tmpdir } from 'os';
+
+import { getDraft, reviseDraft } from '../../functions/draft';
+
+const ora = require('ora');
+
+/**
+ * Opens the skeleton of a draft in an editor and saves it as a new revision.
+ */
+export default class DraftEdit extends Command {
+    static description = `Open the skeleton of a draft in an editor and save it as a new revision.
+The editor is taken from $VISUAL or $EDITOR and defaults to vi.
+A revision is only added if the skeleton was changed and is still valid.
+If it isn't, the edits are kept in a temp file that is opened again the next time the draft is edited.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+    }
+
+    static args = [
+        {
+            name: 'id',
+            description: 'ID of the draft, as listed by draft:list',
+        },
+    ]
+
+    async run() {
+        const { args } = this.parse(DraftEdit)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.id === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['draft:edit', '-h']);
+        }
+
+        const resp = getDraft(args.id);
+        if (resp.success === false) return oraStart.fail(resp.message);
+
+        oraStart.succeed('Command ready')
+
+        // edit the skeleton in a temp file, resuming edits that weren't saved before
+        const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+        const path = `${tmpdir()}/psqr-draft-${resp.data.id}.json`;
+        const kept = `, your edits are kept at ${path}`;
+        let content;
+        try {
+            if (existsSync(path) === false) writeFileSync(path, JSON.stringify(resp.data.skeleton, null, 4));
+            const edit = spawnSync(`${editor} "${path}"`, { shell: true, stdio: 'inherit' });
+            if (edit.status !== 0) throw new Error(`Editor ${editor} exited with ${edit.error?.message || edit.status}`);
+            content = readFileSync(path, 'utf-8');
+        } catch (error: any) {
+            return ora().fail(error.message + (existsSync(path) ? kept : ''));
+        }
+
+        const oraSave = ora('Saving Draft...').start();
+
+        let skeleton;
+        try {
+            skeleton = JSON.parse(content);
+        } catch (error: any) {
+            return oraSave.fail(`Draft was not saved because it is not valid JSON: ${error.message}${kept}`);
+        }
+
+        const rResp = reviseDraft(args.id, skeleton);
+        if (rResp.success === false) return oraSave.fail(`Draft was not saved because: ${rResp.message}${kept}`);
+
+        // only discard the edits once they are saved
+        unlinkSync(path);
+
+        oraSave.succeed(rResp.message);
+    }
+}
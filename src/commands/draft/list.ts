@@ -0,0 +1,52 @@
+import { Command, flags } from '@oclif/command'
+import { CliUx } from '@oclif/core'
+
+import { isDraftPublished, listDrafts } from '../../functions/draft';
+
+const ora = require('ora');
+
+/**
+ * Lists local drafts of posts.
+ */
+export default class DraftList extends Command {
+    static description = `List local drafts of posts.
+Drafts that were published and not revised since are only listed with --all.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        all: flags.boolean({ char: 'a', default: false, description: 'Include published drafts' }),
+        json: flags.boolean({ char: 'j', default: false, description: 'Output the drafts as JSON' }),
+    }
+
+    async run() {
+        const { flags } = this.parse(DraftList)
+
+        const drafts = listDrafts().filter(d => flags.all || isDraftPublished(d) === false);
+        if (flags.json) return console.log(JSON.stringify(drafts, null, 4));
+        if (drafts.length === 0) return ora().fail('No drafts found');
+
+        const rows = drafts.map(d => {
+            let status = 'draft';
+            if (typeof d.published !== 'undefined') status = isDraftPublished(d) ? 'published' : 'revised';
+
+            return {
+                id: d.id,
+                title: d.skeleton.title,
+                revisions: String(d.revisions.length),
+                updated: new Date(d.revisions[d.revisions.length - 1]).toISOString(),
+                status,
+                hash: d.published?.hash || '',
+            }
+        });
+
+        CliUx.ux.table(rows, {
+            id: { header: 'ID' },
+            title: { header: 'Title' },
+            revisions: { header: 'Revisions' },
+            updated: { header: 'Updated' },
+            status: { header: 'Status' },
+            hash: { header: 'Published Hash' },
+        });
+    }
+}
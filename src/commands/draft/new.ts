@@ -0,0 +1,109 @@
+import { Command, flags, run as runCommand } from '@oclif/command';
+
+import { createDraft } from '../../functions/draft';
+import { getVars } from '../../functions/env';
+import { handleRuntypeFail, retrieveFiles } from '../../functions/utility';
+import { PostSkeleton } from '../../types/post';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Creates a local draft of a post using input data.
+ *
+ * e.g.
+ * ```typescript
+ * psqr draft:new Hello \
+ *      --raw \
+ *      --title 'Post Title' \
+ *      --canonicalUrl 'https://newpress.co/posts/hello'
+ * ```
+ */
+export default class DraftNew extends Command {
+    static description = `Create a local draft of a post with input data.
+Drafts are stored as post skeletons and can be revised with draft:edit and published with draft:publish.
+Values that are not specified are left empty, and without --publishDate the time it is published is used.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as DATA' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'DATA specified is raw (not a filepath), you need to escape "' }),
+
+        description: flags.string({ char: 'e', description: 'Post description' }),
+        lang: flags.string({ char: 'l', description: 'Post language, can be set in env' }),
+        publishDate: flags.string({ char: 'p', description: 'Post publish date' }),
+        title: flags.string({ char: 't', description: 'Post title' }),
+        geo: flags.string({ char: 'g', description: 'Post geo' }),
+        politicalSubdivision: flags.string({ char: 'o', description: 'Post political subdivision' }),
+        image: flags.string({ char: 'i', description: 'Post image' }),
+        canonicalUrl: flags.string({ char: 'c', description: 'Post canonical url' }),
+        attach: flags.string({ char: 'a', multiple: true, description: 'Relative path to a file to attach when published, can be used more than once' }),
+    }
+
+    static args = [
+        {
+            name: 'body',
+            description: 'Relative path to body data file or JSON body data',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(DraftNew)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (flags.stdin === true) args.body = await getStdin();
+
+        if (typeof args.body === 'undefined' || args.body === '') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['draft:new', '-h']);
+        }
+
+        const env = getVars();
+
+        if (typeof flags.lang === 'undefined' && typeof env.DEFAULT_LANGUAGE === 'undefined') {
+            return oraStart.fail('You need to specify a language either as a flag with this command or set it in the psqr env');
+        }
+
+        oraStart.succeed('Command ready')
+        const oraCreate = ora('Creating Draft...').start();
+
+        // get body data, from file if needed
+        let body = args.body;
+        if (flags.raw === false && flags.stdin === false) {
+            const bResp = await retrieveFiles([{
+                path: body,
+                relative: true,
+            }])
+            if (bResp.success === false || typeof bResp.files[0] !== 'object') return oraCreate.fail(bResp.message);
+            body = bResp.files[0].data;
+        }
+
+        // assemble post skeleton
+        let skel;
+        try {
+            skel = PostSkeleton.check({
+                body,
+                description: flags.description || '',
+                lang: flags.lang || env.DEFAULT_LANGUAGE,
+                publishDate: Number(flags.publishDate || 0),
+                title: flags.title || '',
+                geo: flags.geo || '',
+                politicalSubdivision: flags.politicalSubdivision || '',
+                image: flags.image || '',
+                canonicalUrl: flags.canonicalUrl,
+            })
+        } catch (error) {
+            const msg = handleRuntypeFail(error);
+            return oraCreate.fail(msg);
+        }
+
+        const attach = (flags.attach || []).map(a => `${process.cwd()}/${a}`);
+        const resp = createDraft(skel, attach);
+        if (resp.success === false) return oraCreate.fail(resp.message);
+
+        oraCreate.succeed(`Created draft ${resp.data.id}`);
+    }
+}
@@ -0,0 +1,123 @@
+import { Command, flags, run as runCommand } from '@oclif/command';
+
+import { publishPost } from '../../functions/post';
+import { getDraft, isDraftPublished, markDraftPublished } from '../../functions/draft';
+import { readAttachments, uploadAttachments } from '../../functions/attachment';
+import { getVars } from '../../functions/env';
+import { generateLogInput, log } from '../../functions/log';
+import { unlockIdentity, verifyKeyGrant } from '../../functions/identity';
+import { setPassphrase } from '../../functions/keystore';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Creates a post from a draft, signs it with specified key, and publishes it to a Broadcaster.
+ */
+export default class DraftPublish extends Command {
+    static description = `Create a post from a draft, sign it with specified key, and publish it to Broadcaster.
+If the draft has no publish date the current time is used.
+Attachments of the draft are hashed and uploaded to the content endpoint first.
+The draft is kept and records the infoHash it was published as.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        broadcasters: flags.string({ char: 'b', description: 'Colon (:) separated list of domains of Broadcaster(s) to put to' }),
+        kid: flags.string({ char: 'k', description: 'KID string' }),
+        passphraseStdin: flags.boolean({ default: false, description: 'Use STDIN input as the passphrase of encrypted keys' }),
+        force: flags.boolean({ char: 'f', default: false, description: 'Sign even if the key is not granted publish in its DID doc' }),
+        endpoint: flags.string({ char: 'u', description: 'Url of content endpoint to upload attachments to, can be set in env' }),
+        again: flags.boolean({ char: 'a', default: false, description: 'Publish even if the draft has not been revised since it was published' }),
+    }
+
+    static args = [
+        {
+            name: 'id',
+            description: 'ID of the draft, as listed by draft:list',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(DraftPublish)
+
+        // read the passphrase before STDIN is used for anything else
+        if (flags.passphraseStdin === true) {
+            setPassphrase(await getStdin());
+        }
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.id === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['draft:publish', '-h']);
+        }
+
+        const env = getVars();
+
+        const dResp = getDraft(args.id);
+        if (dResp.success === false) return oraStart.fail(dResp.message);
+        const draft = dResp.data;
+        if (flags.again === false && isDraftPublished(draft)) {
+            return oraStart.fail(`Draft ${draft.id} was already published as ${draft.published.hash}, use --again to publish it anyway`);
+        }
+
+        const endpoint = flags.endpoint || env.CONTENT_ENDPOINT || '';
+        if (draft.attach.length > 0 && endpoint === '') {
+            return oraStart.fail('You need to specify a content endpoint to upload attachments to either as a flag with this command or set it in the psqr env');
+        }
+
+        oraStart.succeed('Command ready')
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(flags.kid || '');
+        if (unlock.success === false) return ora().fail(unlock.message);
+
+        // ensure the key is allowed to publish before signing
+        if (flags.force === false) {
+            const gResp = await verifyKeyGrant(flags.kid || '');
+            if (gResp.success === false) return ora().fail(gResp.message + ', use --force to sign anyway');
+        }
+
+        // hash files to attach as they are now
+        const aResp = readAttachments(draft.attach, false);
+        if (aResp.success === false || typeof aResp.data === 'undefined') return ora().fail(aResp.message);
+        const attachments = aResp.data;
+
+        // upload attachments before the post references them
+        if (attachments.attachments.length > 0) {
+            const oraUpload = ora('Uploading Attachments...').start();
+            const uResp = await uploadAttachments(attachments, {
+                endpoint,
+                selfSigned: env.ALLOW_SELF_SIGNED === 'true',
+            });
+            if (uResp.success === false) return oraUpload.fail(uResp.message + '\n' + uResp.items.map(i => i.message).join('\n'));
+            oraUpload.succeed(uResp.message);
+        }
+
+        const skel = {
+            ...draft.skeleton,
+            publishDate: draft.skeleton.publishDate || Date.now(),
+            attachments: attachments.attachments,
+        };
+
+        const oraPub = ora('Publishing Post...').start();
+        const pResp = await publishPost(skel, {
+            kid: flags.kid || '',
+            broadcaster: flags.broadcasters || '',
+            selfSigned: env.ALLOW_SELF_SIGNED === 'true',
+        });
+        if (pResp.success === false || typeof pResp.data === 'undefined') return oraPub.fail(pResp.message);
+        oraPub.succeed(pResp.message + '\n');
+
+        const mResp = markDraftPublished(draft.id, pResp.data.hash);
+        if (mResp.success === false) ora().warn(`Unable to record draft ${draft.id} as published because: ${mResp.message}`);
+
+        const logInput = generateLogInput(process.argv)
+        logInput.code = pResp.items.map(i => {
+            return { key: i.message, obj: i.data }
+        });
+        log(logInput);
+    }
+}
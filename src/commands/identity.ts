@@ -1,7 +1,7 @@
 import { Command, flags } from '@oclif/command'
 
 import { log, generateLogInput } from '../functions/log'
-import { getFullIdentity, getIdentity, parseKidKey } from '../functions/identity';
+import { getFullIdentity, getIdentity, parseKidKey, unlockIdentity } from '../functions/identity';
 import { Static } from 'runtypes';
 import { Did, PublicInfo } from '../types/identity';
 import { handleRuntypeFail } from '../functions/utility';
@@ -39,6 +39,12 @@ This command lists the identities that are currently saved and available.
         const kid = args.kid;
         const logInput = generateLogInput(process.argv);
 
+        // request passphrase if the keys are encrypted
+        oraStart.stop();
+        const unlock = await unlockIdentity(kid || '');
+        if (unlock.success === false) return oraStart.fail(unlock.message);
+        oraStart.start();
+
         // get the specified or default identity
         let idResp;
         if (flags.all) {
@@ -0,0 +1,86 @@
+import { Command, flags } from '@oclif/command'
+
+import { log, generateLogInput } from '../../functions/log'
+import { AuditLogQuery, queryAuditLog } from '../../functions/auditlog';
+import { parseBareDid } from '../../functions/identity';
+import { convertToTimestamp } from '../../functions/utility';
+
+const ora = require('ora');
+
+/**
+ * Queries the local audit log of signatures made with stored keys.
+ */
+export default class IdentityAuditLog extends Command {
+    static description = `Query the local audit log of signatures made with stored keys.
+Every post, JWS, credential, and DID propagation or deletion signed locally is recorded
+with its kid, operation, content hash, command, and timestamp.
+The audit logs of all identities are queried unless a DID or --kid is specified.
+--since and --until accept a date (YYYY-MM-DD or ISO 8601) or a duration before now, ie 7d.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        kid: flags.string({ char: 'k', description: 'Only list signatures made by this KID' }),
+        hash: flags.string({ char: 'a', description: 'Only list signatures of content with this sha256 hash or infoHash' }),
+        since: flags.string({ char: 's', description: 'Only list signatures made at or after this time' }),
+        until: flags.string({ char: 'u', description: 'Only list signatures made at or before this time' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'Output only the raw records' }),
+    }
+
+    static args = [
+        {
+            name: 'did',
+            description: 'DID URL string, expected format: did:(psqr|web):{hostname}(/|:){path}',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(IdentityAuditLog)
+
+        const oraStart = ora('Preparing command...').start();
+
+        // get identity to query from did or kid
+        let did = '';
+        if (typeof args.did === 'string' || typeof flags.kid === 'string') {
+            const bdid = parseBareDid(args.did || flags.kid);
+            if (bdid === false) return oraStart.fail('Invalid DID string specified, expected format: did:(psqr|web):{hostname}(/|:){path}');
+            did = bdid;
+        }
+
+        // assemble query
+        const query: AuditLogQuery = { kid: flags.kid, hash: flags.hash };
+        if (typeof flags.since === 'string') {
+            const since = convertToTimestamp(flags.since, 'past');
+            if (since === false) return oraStart.fail(`Unable to parse since ${flags.since}`);
+            query.since = since;
+        }
+        if (typeof flags.until === 'string') {
+            const until = convertToTimestamp(flags.until, 'past');
+            if (until === false) return oraStart.fail(`Unable to parse until ${flags.until}`);
+            query.until = until;
+        }
+
+        oraStart.succeed('Command ready')
+
+        const records = queryAuditLog(did, query);
+        if (flags.raw === true) return console.log(records);
+        if (records.length === 0) return ora().fail('No matching signatures found');
+        ora().succeed(`Found ${records.length} matching signatures`);
+
+        const logInput = generateLogInput(process.argv);
+        logInput.title = did === '' ? 'Signing Audit Log' : `Signing Audit Log for ${did}`;
+        logInput.code = records.map(r => {
+            return {
+                key: new Date(r.timestamp).toISOString(),
+                obj: {
+                    kid: r.kid,
+                    operation: r.operation,
+                    hash: r.hash,
+                    infoHash: r.infoHash,
+                    command: r.command,
+                },
+            }
+        });
+        log(logInput);
+    }
+}
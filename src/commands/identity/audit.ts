@@ -0,0 +1,83 @@
+import { Command, flags } from '@oclif/command'
+import { Static } from 'runtypes';
+
+import { auditKeyExpiry, getDid, listIdentities, parseBareDid } from '../../functions/identity';
+import { getVars } from '../../functions/env';
+import { handleRuntypeFail } from '../../functions/utility';
+import { Did } from '../../types/identity';
+
+const ora = require('ora');
+const parseDuration = require('parse-duration');
+
+const DEFAULT_WINDOW = '30d';
+
+/**
+ * Audits the validity periods of the keys of identities.
+ */
+export default class IdentityAudit extends Command {
+    static description = `Audit the validity periods of the keys of identities.
+Warns about keys that have expired or expire within the window, which defaults to the KEY_EXPIRY_WINDOW var or ${DEFAULT_WINDOW}.
+All stored identities are audited if no DID is specified. Revoked keys are skipped.
+Exits with code 1 if any key has expired or expires within the window.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        window: flags.string({ char: 'w', description: `Duration before expiry to warn about a key, ie 7d. Defaults to KEY_EXPIRY_WINDOW or ${DEFAULT_WINDOW}` }),
+    }
+
+    static args = [
+        {
+            name: 'did',
+            description: 'DID URL string, expected format: did:(psqr|web):{hostname}(/|:){path}',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(IdentityAudit)
+
+        const oraStart = ora('Preparing command...').start();
+
+        const windowStr = flags.window || getVars(['KEY_EXPIRY_WINDOW']).KEY_EXPIRY_WINDOW || DEFAULT_WINDOW;
+        const window = parseDuration(windowStr);
+        if (typeof window !== 'number') return oraStart.fail(`Unable to parse window ${windowStr}`);
+
+        // get DID docs to audit
+        let didDocs: Static<typeof Did>[];
+        if (typeof args.did === 'undefined') {
+            didDocs = listIdentities();
+            if (didDocs.length === 0) return oraStart.fail('No stored identities to audit');
+        } else {
+            const bdid = parseBareDid(args.did);
+            if (bdid === false) return oraStart.fail('Invalid DID string specified, expected format: did:(psqr|web):{hostname}(/|:){path}');
+
+            const dResp = await getDid(bdid);
+            if (dResp.success === false) return oraStart.fail('Unable to get did doc because: ' + handleRuntypeFail(dResp.error));
+            didDocs = [dResp.didDoc];
+        }
+
+        oraStart.succeed('Command ready')
+
+        let issues = 0;
+        didDocs.forEach(didDoc => {
+            const items = auditKeyExpiry(didDoc, window);
+            const failed = items.filter(i => i.success === false);
+            issues += failed.length;
+
+            const oraAudit = ora(`Auditing ${items.length} keys of ${didDoc.id}...`).start();
+            if (failed.length === 0) {
+                oraAudit.succeed(`No keys of ${didDoc.id} expire within ${windowStr}`);
+            } else {
+                oraAudit.warn(`${failed.length}/${items.length} keys of ${didDoc.id} have expired or expire within ${windowStr}`);
+            }
+
+            items.forEach(i => {
+                if (i.data.status === 'expired') return ora().fail(i.message);
+                if (i.data.status === 'expiring') return ora().warn(i.message);
+                if (i.data.status === 'pending') return ora().info(i.message);
+            });
+        });
+
+        return issues > 0 ? this.exit(1) : true;
+    }
+}
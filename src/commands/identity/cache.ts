@@ -0,0 +1,125 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+
+import { log, generateLogInput } from '../../functions/log'
+import { migrateDidToCache, parseBareDid, refreshDid } from '../../functions/identity';
+import { isCacheFresh, listCachedDids, pinCachedDid, pruneCachedDids, removeCachedDid } from '../../functions/cache';
+import { handleRuntypeFail } from '../../functions/utility';
+
+const ora = require('ora');
+const inquirer = require('inquirer');
+
+/**
+ * Manages the cache of resolved DID docs of foreign identities.
+ */
+export default class IdentityCache extends Command {
+    static description = `Manage the cache of resolved DID docs
+DID docs of identities that aren't stored locally are cached when they are resolved.
+Cached DID docs are used until they are older than the DID_CACHE_TTL var (default 1d) unless they are pinned.
+Set the DID_OFFLINE var to true to only use cached DID docs.
+Local DID docs are never refreshed automatically, use migrate to move a foreign DID doc without stored keys into the cache.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        all: flags.boolean({ char: 'a', default: false, description: 'Prune all cached DID docs that aren\'t pinned, not just expired ones' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'Output only the raw cache entries when listing' }),
+        force: flags.boolean({ char: 'f', default: false, description: 'Migrate without asking for confirmation' }),
+    }
+
+    static args = [
+        {
+            name: 'action',
+            description: 'Cache action to take',
+            options: ['list', 'prune', 'refresh', 'pin', 'unpin', 'remove', 'migrate'],
+            default: 'list',
+        },
+        {
+            name: 'did',
+            description: 'DID string of the cached DID doc, required to pin, unpin, remove, or migrate. Refresh uses all unpinned DID docs if not specified',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(IdentityCache)
+
+        const oraStart = ora('Preparing command...').start();
+
+        const action = args.action;
+        let did: string | false = false;
+        if (typeof args.did !== 'undefined') {
+            did = parseBareDid(args.did);
+            if (did === false) return oraStart.fail('Invalid DID string specified, expected format: did:(psqr|web):{hostname}(/|:){path}');
+        }
+
+        if (did === false && ['pin', 'unpin', 'remove', 'migrate'].includes(action)) {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['identity:cache', '-h']);
+        }
+
+        oraStart.succeed('Command ready')
+
+        switch (action) {
+            case 'prune': {
+                const oraPrune = ora('Pruning cached DID docs...').start();
+                const resp = pruneCachedDids(flags.all);
+                return resp.success ? oraPrune.succeed(resp.message) : oraPrune.fail(resp.message);
+            }
+            case 'refresh': {
+                const dids = did === false ? listCachedDids().filter(e => e.pinned === false).map(e => e.did) : [did];
+                for (let i = 0; i < dids.length; i++) {
+                    const oraRefresh = ora(`Refreshing DID doc for ${dids[i]}...`).start();
+                    const resp = await refreshDid(dids[i]);
+                    if (resp.success) {
+                        oraRefresh.succeed(`Refreshed DID doc for ${dids[i]}`);
+                    } else {
+                        oraRefresh.fail(`Unable to refresh DID doc for ${dids[i]} because: ${handleRuntypeFail(resp.error)}`);
+                    }
+                }
+                return true;
+            }
+            case 'migrate': {
+                if (flags.force === false) {
+                    const confirmation = await inquirer.prompt({
+                        type: 'confirm',
+                        name: 'migrateConfirmation',
+                        message: `Are you sure you want to replace the local DID doc of ${did} with a cached copy?`,
+                        default: false,
+                    });
+                    if (confirmation.migrateConfirmation === false) return ora('Migration cancelled.').start().fail();
+                }
+
+                const oraMigrate = ora(`Migrating DID doc for ${did}...`).start();
+                const resp = await migrateDidToCache(did as string);
+                return resp.success ? oraMigrate.succeed(resp.message) : oraMigrate.fail(resp.message);
+            }
+            case 'pin':
+            case 'unpin':
+            case 'remove': {
+                const oraUpdate = ora('Updating cached DID doc...').start();
+                const resp = action === 'remove' ? removeCachedDid(did as string) : pinCachedDid(did as string, action === 'pin');
+                return resp.success ? oraUpdate.succeed(resp.message) : oraUpdate.fail(resp.message);
+            }
+            default: {
+                const entries = listCachedDids().filter(e => did === false || e.did === did);
+                if (flags.raw === true) return console.log(entries);
+
+                const logInput = generateLogInput(process.argv);
+                logInput.title = 'Cached DID Docs';
+                logInput.code = entries.map(e => {
+                    return {
+                        key: e.did,
+                        obj: {
+                            fetched: new Date(e.fetched).toISOString(),
+                            pinned: e.pinned,
+                            expired: isCacheFresh(e) === false,
+                            name: e.didDoc.psqr.publicIdentity.name,
+                            keys: e.didDoc.psqr.publicKeys.map(k => k.kid),
+                        },
+                    }
+                });
+                log(logInput);
+            }
+        }
+    }
+}
@@ -4,7 +4,8 @@ import { Static } from 'runtypes';
 
 import { createIdentity, addIdentity, parseKidKey } from '../../functions/identity';
 import { createFiles, FileConfig, handleRuntypeFail } from '../../functions/utility';
-import { PublicInfo } from '../../types/identity';
+import { createMnemonic, getMnemonic, MNEMONIC_VAR } from '../../functions/mnemonic';
+import { KeyAlg, PublicInfo } from '../../types/identity';
 
 const ora = require('ora');
 const getStdin = require('get-stdin');
@@ -14,12 +15,16 @@ const getStdin = require('get-stdin');
  */
 export default class IdentityCreate extends Command {
     static description = `Create a new identity from a provided KID and add it to the psqr config.
-This only supports creating did:psqr identities.`
+This only supports creating did:psqr identities, or did:key identities by using did:key as the KID.
+With --mnemonic the keys are derived from the mnemonic seed phrase in ${MNEMONIC_VAR}.
+If it isn't set a new mnemonic is generated and output once, it is needed to recover the keys with identity:recover.`
 
     static flags = {
         help: flags.help({ char: 'h' }),
         local: flags.boolean({ char: 'l', default: false, description: 'Store the identity locally instead of in the psqr config' }),
         keys: flags.string({ char: 'k', description: 'List of comma separated key names to create. Overrides keyId from end of KID' }),
+        alg: flags.enum({ char: 'a', options: ['ES384', 'ES256', 'EdDSA'], default: 'ES384', description: 'Algorithm of the keys to create' }),
+        mnemonic: flags.boolean({ char: 'm', default: false, description: 'Derive the keys from a mnemonic seed phrase' }),
         stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as full JSON publicIdentity string' }),
 
         name: flags.string({ char: 'n', description: 'publicIdentity name, REQUIRED if no STDIN input' }),
@@ -55,6 +60,22 @@ This only supports creating did:psqr identities.`
 
         const kid = args.kid;
 
+        // use the mnemonic from the env or generate a new one
+        let mnemonic = '';
+        let newMnemonic = false;
+        if (flags.mnemonic) {
+            try {
+                if (typeof process.env[MNEMONIC_VAR] === 'string' && process.env[MNEMONIC_VAR] !== '') {
+                    mnemonic = await getMnemonic();
+                } else {
+                    mnemonic = createMnemonic();
+                    newMnemonic = true;
+                }
+            } catch (error: any) {
+                return oraStart.fail(error.message);
+            }
+        }
+
         oraStart.succeed('Command ready')
         const oraCreate = ora('Creating Identity...').start();
 
@@ -93,7 +114,7 @@ This only supports creating did:psqr identities.`
             return false;
         }
 
-        const newId = await createIdentity(kid, info, keyNames);
+        const newId = await createIdentity(kid, info, keyNames, KeyAlg.check(flags.alg), mnemonic);
 
         if (newId.success === false) {
             oraCreate.fail(newId.message)
@@ -101,6 +122,8 @@ This only supports creating did:psqr identities.`
         }
 
         oraCreate.succeed(newId.message);
+        if (newMnemonic) ora().warn(`Keys were derived from this new mnemonic, store it safely as it won't be shown again:\n${mnemonic}`);
+
         const oraSave = ora('Saving Identity...').start();
 
         // if true save identity locally as individual files
@@ -1,7 +1,8 @@
 import { Command, flags, run as runCommand } from '@oclif/command'
 import { importJWK, CompactSign } from 'jose';
 
-import { parseKidKey, verifyAdminIdentity, createIdentityAxiosClient } from '../../functions/identity';
+import { parseKidKey, verifyAdminIdentity, createIdentityAxiosClient, unlockIdentity } from '../../functions/identity';
+import { recordSignature } from '../../functions/auditlog';
 
 const ora = require('ora');
 
@@ -40,6 +41,10 @@ export default class IdentityDelete extends Command {
 
         oraStart.succeed('Command ready');
 
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(did);
+        if (unlock.success === false) return ora().fail(unlock.message);
+
         const oraRun = ora('Deleting Identity...').start();
 
         // verify admin identity via DID
@@ -55,10 +60,11 @@ export default class IdentityDelete extends Command {
 
         const signature = await new CompactSign(encoder.encode(JSON.stringify(idResp.identity.didDoc)))
             .setProtectedHeader({
-                alg: 'ES384',
+                alg: keyPair.private.alg,
                 kid: keyPair.kid,
             })
             .sign(key);
+        recordSignature(keyPair.kid, 'delete', JSON.stringify(idResp.identity.didDoc));
 
         // create axios client for API endpoint with signature and PUT method
         const axResp = await createIdentityAxiosClient(did, 'DELETE', signature);
@@ -0,0 +1,82 @@
+import { Command, flags } from '@oclif/command'
+
+import { log, generateLogInput } from '../../functions/log'
+import { diffDid, DidDiff, DidDiffEntry } from '../../functions/identity';
+import { getVars } from '../../functions/env';
+
+const ora = require('ora');
+
+/**
+ * Compares the local DID doc of an identity with the hosted one.
+ */
+export default class IdentityDiff extends Command {
+    static description = `Compare the local DID doc of an identity with the hosted one.
+Differences in publicIdentity fields, publicKeys, permission grants, and revoked keys are listed.
+Use this before identity:propagate to see what will change.
+With --json the diff is output as JSON and the command exits with code 1 if the DID docs have drifted.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        json: flags.boolean({ char: 'j', default: false, description: 'Output the diff as JSON and exit with code 1 on drift' }),
+    }
+
+    static args = [
+        {
+            name: 'did',
+            description: 'DID URL string, expected format: did:(psqr|web):{hostname}(/|:){path}. Defaults to the default identity',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(IdentityDiff)
+
+        const oraStart = ora({ text: 'Preparing command...', isSilent: flags.json }).start();
+
+        const did = args.did || getVars(['DEFAULT_DID']).DEFAULT_DID;
+        if (typeof did === 'undefined' || did === '') return oraStart.fail('You need to specify a DID or set a default identity');
+
+        oraStart.succeed('Command ready')
+        const oraDiff = ora({ text: `Comparing local and hosted DID docs for ${did}...`, isSilent: flags.json }).start();
+
+        const resp = await diffDid(did);
+        if (resp.success === false) {
+            if (flags.json) {
+                console.log(JSON.stringify({ did, success: false, message: resp.message }));
+                return this.exit(2);
+            }
+            return oraDiff.fail(resp.message);
+        }
+
+        const diff: DidDiff = resp.data;
+        const sections = Object.keys(diff) as Array<keyof DidDiff>;
+        const drift = sections.some(s => diff[s].length > 0);
+
+        if (flags.json) {
+            console.log(JSON.stringify({ did, drift, diff }, null, 4));
+            return drift ? this.exit(1) : true;
+        }
+
+        if (drift === false) return oraDiff.succeed(resp.message);
+        oraDiff.fail(resp.message);
+
+        // output each section that has differences
+        const logInput = generateLogInput(process.argv);
+        logInput.title = `DID Diff for ${did}`;
+        logInput.code = [];
+        sections.forEach(s => {
+            diff[s].forEach((e: DidDiffEntry) => {
+                logInput.code?.push({
+                    key: `${s} ${e.key}`,
+                    obj: {
+                        local: e.local,
+                        hosted: e.hosted,
+                    },
+                });
+            });
+        });
+        log(logInput);
+
+        return false;
+    }
+}
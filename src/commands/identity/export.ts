@@ -1,6 +1,10 @@
 import { Command, flags } from '@oclif/command';
 import { createFiles, FileConfig } from '../../functions/utility';
-import { getFullIdentity } from '../../functions/identity';
+import { getFullIdentity, hasEncryptedKeys, unlockIdentity } from '../../functions/identity';
+import { encryptPrivateKey, getPassphrase } from '../../functions/keystore';
+import { formatKeyPair, KEY_FORMAT_EXTENSIONS } from '../../functions/keyformat';
+import { toW3cDid } from '../../functions/w3c';
+import { KeyFormat } from '../../types/identity';
 
 const ora = require('ora');
 const inquirer = require('inquirer');
@@ -11,12 +15,18 @@ const inquirer = require('inquirer');
 export default class IdentityExport extends Command {
     static description = `Export the did doc of an identity.
 If you wish to export your stored private keys you need to specify each key by name.
+Private keys that are encrypted at rest stay encrypted unless the decrypt flag is used.
+Keys can be exported as JWK, PEM/PKCS#8, or JWKS files with --format, only JWK supports encrypted keys.
+Use --w3c to export the did doc as a standard W3C DID doc with JsonWebKey2020 verification methods.
 `
 
     static flags = {
         help: flags.help({ char: 'h' }),
         keys: flags.string({ char: 'k', description: 'Comma separated list of key names to export. THIS WILL EXPORT PRIVATE KEYS.' }),
         pretty: flags.boolean({ char: 'p', default: false, description: 'Pretty-print the exported identity doc' }),
+        decrypt: flags.boolean({ char: 'd', default: false, description: 'Export encrypted private keys as plaintext JWKs' }),
+        w3c: flags.boolean({ char: 'w', default: false, description: 'Export the did doc as a standard W3C DID doc' }),
+        format: flags.enum({ char: 'f', options: ['jwk', 'pem', 'jwks'], default: 'jwk', description: 'Format of the exported keys' }),
     }
 
     static args = [
@@ -45,7 +55,13 @@ If you wish to export your stored private keys you need to specify each key by n
             keyNames = flags.keys.split(',');
         }
 
+        const format = KeyFormat.check(flags.format);
         const defaultId = typeof args.did === 'undefined';
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(defaultId ? '' : args.did);
+        if (unlock.success === false) return ora().fail(unlock.message);
+
         const oraStart = ora(`Retrieving ${defaultId ? 'default' : args.did} identity...`).start();
 
         let identityResp;
@@ -71,14 +87,19 @@ If you wish to export your stored private keys you need to specify each key by n
 
         // add did export file
         const didFileName = exportFolder + '/identity.json';
-        const didFileData = flags.pretty ? JSON.stringify(didDoc, null, 4) : JSON.stringify(didDoc);
+        const exportDoc = flags.w3c ? toW3cDid(didDoc) : didDoc;
+        const didFileData = flags.pretty ? JSON.stringify(exportDoc, null, 4) : JSON.stringify(exportDoc);
         files.push({
             path: didFileName,
             relative: true,
             data: didFileData,
         });
 
-        // add any key pairs requested
+        // add any key pairs requested, keep them encrypted if they are stored that way
+        const encrypt = hasEncryptedKeys(didDoc.id) && flags.decrypt === false;
+        if (encrypt && keyNames.length > 0 && format !== 'jwk') {
+            return oraSave.fail(`Encrypted keys can only be exported as jwk, use --decrypt to export them as ${format}`);
+        }
         if (keyNames.length > 0) {
             const kids = keyNames.map(n => `${didDoc.id}#${n}`);
             for (let i = 0; i < keyPairs.length; i++) {
@@ -86,9 +107,17 @@ If you wish to export your stored private keys you need to specify each key by n
                 const keyName = kp.kid.replace(didDoc.id + '#', '');
 
                 if (kids.includes(kp.kid)) {
+                    const fResp = await formatKeyPair(kp, format, flags.pretty);
+                    if (fResp.success === false) return oraSave.fail(fResp.message);
+                    const ext = KEY_FORMAT_EXTENSIONS[format];
+
                     // add private key
-                    const privKeyName = `${exportFolder}/${keyName}.private.jwk`;
-                    const privKeyData = flags.pretty ? JSON.stringify(kp.private, null, 4) : JSON.stringify(kp.private);
+                    const privKeyName = `${exportFolder}/${keyName}.private.${ext}`;
+                    let privKeyData = fResp.data.private;
+                    if (encrypt) {
+                        const privKey = await encryptPrivateKey(kp.private, await getPassphrase());
+                        privKeyData = flags.pretty ? JSON.stringify(privKey, null, 4) : JSON.stringify(privKey);
+                    }
                     files.push({
                         path: privKeyName,
                         relative: true,
@@ -97,12 +126,11 @@ If you wish to export your stored private keys you need to specify each key by n
 
                     // add public key if present
                     if (typeof kp.public !== 'undefined') {
-                        const pubKeyName = `${exportFolder}/${keyName}.public.jwk`;
-                        const pubKeyData = flags.pretty ? JSON.stringify(kp.public, null, 4) : JSON.stringify(kp.public);
+                        const pubKeyName = `${exportFolder}/${keyName}.public.${ext}`;
                         files.push({
                             path: pubKeyName,
                             relative: true,
-                            data: pubKeyData,
+                            data: fResp.data.public,
                         });
                     }
                 }
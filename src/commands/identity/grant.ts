@@ -0,0 +1,75 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+
+import { addIdentity, getFullIdentity, parseBareDid, unlockIdentity, updateGrants } from '../../functions/identity';
+
+const ora = require('ora');
+
+/**
+ * Adds permission grants to a Key of a preexisting identity.
+ */
+export default class IdentityGrant extends Command {
+    static description = `Add permission grants to a Key of a preexisting identity.
+The Key must be present in the publicKeys of the DID doc.
+Any changes to the DID doc are local and must be propagated with identity:propagate.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+    }
+
+    static args = [
+        {
+            name: 'kid',
+            description: 'KID string, expected format: did:(psqr|web):{hostname}(/|:){path}#{keyId}',
+        },
+        {
+            name: 'grants',
+            description: 'Comma (,) separated list of grants to add, ie admin,publish',
+        },
+    ]
+
+    async run() {
+        const { args } = this.parse(IdentityGrant)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.kid === 'undefined' || typeof args.grants === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['identity:grant', '-h']);
+        }
+
+        const kid = args.kid;
+        const grants: string[] = args.grants.replace(/\s/g, '').split(',').filter((g: string) => g !== '');
+        const bdid = parseBareDid(kid);
+        if (bdid === false) return oraStart.fail('Invalid KID string specified, expected format: did:(psqr|web):{hostname}(/|:){path}#{keyId}');
+
+        // request passphrase if the keys are encrypted
+        oraStart.stop();
+        const unlock = await unlockIdentity(bdid);
+        if (unlock.success === false) return oraStart.fail(unlock.message);
+        oraStart.start();
+
+        // retrieve identity
+        const idResp = await getFullIdentity(bdid);
+        if (idResp.success === false) {
+            return oraStart.fail('Unable to retrieve full identity because: ' + idResp.message);
+        }
+
+        oraStart.succeed('Command ready')
+        const oraGrant = ora('Adding grants...').start();
+
+        const gResp = updateGrants(idResp.identity, kid, grants);
+        if (gResp.success === false) return oraGrant.fail(gResp.message);
+
+        // store full identity
+        const addResp = await addIdentity(gResp.identity);
+
+        if (addResp.success) {
+            oraGrant.succeed(gResp.message)
+        } else {
+            oraGrant.fail(addResp.message);
+        }
+        return addResp.success;
+    }
+}
@@ -0,0 +1,122 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+import { Static } from 'runtypes';
+
+import { log, generateLogInput } from '../../functions/log'
+import { compareDids, DidDiff, DidDiffEntry, getDid, parseBareDid } from '../../functions/identity';
+import { getDidVersion, listDidVersions } from '../../functions/history';
+import { handleRuntypeFail } from '../../functions/utility';
+import { Did } from '../../types/identity';
+
+const ora = require('ora');
+
+/**
+ * Lists and compares saved versions of the DID doc of an identity.
+ */
+export default class IdentityHistory extends Command {
+    static description = `List and compare saved versions of the DID doc of an identity.
+A version is saved whenever the local DID doc changes, keyed by its psqr.updated timestamp.
+Specify a version to compare it with the current local DID doc, or two versions to compare them with each other.
+Use identity:rollback to restore a version.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'Output only the raw versions when listing' }),
+    }
+
+    static args = [
+        {
+            name: 'did',
+            description: 'DID URL string, expected format: did:(psqr|web):{hostname}(/|:){path}',
+        },
+        {
+            name: 'from',
+            description: 'psqr.updated timestamp of the version to compare from',
+        },
+        {
+            name: 'to',
+            description: 'psqr.updated timestamp of the version to compare to, defaults to the current local DID doc',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(IdentityHistory)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.did === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['identity:history', '-h']);
+        }
+
+        const did = parseBareDid(args.did);
+        if (did === false) return oraStart.fail('Invalid DID string specified, expected format: did:(psqr|web):{hostname}(/|:){path}');
+
+        oraStart.succeed('Command ready')
+
+        // list versions if none are specified
+        if (typeof args.from === 'undefined') {
+            const versions = listDidVersions(did);
+            if (flags.raw === true) return console.log(versions);
+            if (versions.length === 0) return ora().fail(`No saved versions of ${did}`);
+
+            const logInput = generateLogInput(process.argv);
+            logInput.title = `DID Doc History for ${did}`;
+            logInput.code = versions.map(v => {
+                return {
+                    key: String(v.updated),
+                    obj: {
+                        updated: v.updated === 0 ? null : new Date(v.updated).toISOString(),
+                        saved: new Date(v.saved).toISOString(),
+                        name: v.didDoc.psqr.publicIdentity.name,
+                        keys: v.didDoc.psqr.publicKeys.map(k => k.kid),
+                    },
+                }
+            });
+            return log(logInput);
+        }
+
+        const oraDiff = ora('Comparing versions...').start();
+
+        // get the versions to compare
+        const from = getDidVersion(did, Number(args.from));
+        if (from === false) return oraDiff.fail(`No saved version ${args.from} of ${did}`);
+
+        let toDoc: Static<typeof Did>;
+        if (typeof args.to === 'undefined') {
+            const dResp = await getDid(did);
+            if (dResp.success === false) return oraDiff.fail(handleRuntypeFail(dResp.error));
+            toDoc = dResp.didDoc;
+        } else {
+            const to = getDidVersion(did, Number(args.to));
+            if (to === false) return oraDiff.fail(`No saved version ${args.to} of ${did}`);
+            toDoc = to.didDoc;
+        }
+
+        // the local side of the diff is the newer doc
+        const diff: DidDiff = compareDids(toDoc, from.didDoc);
+        const sections = Object.keys(diff) as Array<keyof DidDiff>;
+        const count = sections.reduce((c, s) => c + diff[s].length, 0);
+        const toName = args.to || 'the current DID doc';
+        if (count === 0) return oraDiff.succeed(`Version ${args.from} matches ${toName}`);
+        oraDiff.succeed(`Found ${count} differences between version ${args.from} and ${toName}`);
+
+        // output each section that has differences
+        const logInput = generateLogInput(process.argv);
+        logInput.title = `DID Doc Versions of ${did}`;
+        logInput.code = [];
+        sections.forEach(s => {
+            diff[s].forEach((e: DidDiffEntry) => {
+                logInput.code?.push({
+                    key: `${s} ${e.key}`,
+                    obj: {
+                        from: e.hosted,
+                        to: e.local,
+                    },
+                });
+            });
+        });
+        log(logInput);
+    }
+}
@@ -0,0 +1,88 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+import { Static } from 'runtypes';
+
+import { addIdentity } from '../../functions/identity';
+import { handleRuntypeFail, retrieveFiles } from '../../functions/utility';
+import { fromW3cDid } from '../../functions/w3c';
+import { Did, Identity } from '../../types/identity';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Imports a standard W3C DID doc as an identity.
+ */
+export default class IdentityImport extends Command {
+    static description = `Import a standard W3C DID doc as an identity in the cli config.
+If the DID doc has a psqr block it is used as is, otherwise publicKeys are mapped from
+JsonWebKey2020 verification methods and permissions from verification relationships:
+authentication and capabilityInvocation grant admin, assertionMethod grants publish and provenance.
+No keys are imported, add them with key:add.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as the DID doc' }),
+        absolute: flags.boolean({ char: 'a', default: false, description: 'DID doc path is an absolute path' }),
+    }
+
+    static args = [
+        {
+            name: 'path',
+            description: 'Path to the W3C DID doc JSON file',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(IdentityImport)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.path === 'undefined' && flags.stdin === false) {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['identity:import', '-h']);
+        }
+
+        // get DID doc from stdin or file
+        let docData;
+        if (flags.stdin) {
+            docData = await getStdin();
+            if (docData === null || docData === '') return oraStart.fail('Invalid stdin');
+        } else {
+            const fResp = await retrieveFiles([{ path: args.path, relative: flags.absolute === false }]);
+            const f = fResp.files[0];
+            if (fResp.success === false || typeof f !== 'object' || typeof f.data !== 'string') {
+                return oraStart.fail('Unable to find DID doc at ' + args.path);
+            }
+            docData = f.data;
+        }
+
+        oraStart.succeed('Command ready')
+        const oraImport = ora('Importing DID doc...').start();
+
+        // convert to a DID PSQR doc
+        let didDoc: Static<typeof Did>;
+        try {
+            didDoc = fromW3cDid(JSON.parse(docData));
+        } catch (error) {
+            const msg = handleRuntypeFail(error);
+            return oraImport.fail(msg);
+        }
+
+        // store identity without keys
+        const identity: Static<typeof Identity> = {
+            did: didDoc.id,
+            didDoc,
+            keyPairs: [],
+        }
+        const addResp = await addIdentity(identity, false);
+
+        if (addResp.success) {
+            oraImport.succeed(addResp.message)
+        } else {
+            oraImport.fail(addResp.message);
+        }
+        return addResp.success;
+    }
+}
@@ -0,0 +1,132 @@
+import { Command, flags } from '@oclif/command'
+import { CliUx } from '@oclif/core'
+
+import {
+    checkStoredKeyPairs, diffDid, DidDiff, getDefaultIds, hasEncryptedKeys, listIdentities, unlockIdentity,
+} from '../../functions/identity';
+import { listCrawlConfigs } from '../../functions/crawl';
+
+const ora = require('ora');
+
+/** Inventory entry of a stored identity */
+interface IdentityReport {
+    did: string;
+    name: string;
+    hosted: string;
+    crawls: string[];
+    keys: {
+        kid: string;
+        status: string;
+        default: boolean;
+    }[];
+}
+
+/**
+ * Lists all stored identities and reports on their health.
+ */
+export default class IdentityList extends Command {
+    static description = `List all stored identities and report on their health.
+For every key pair in each DID doc the stored keys are checked to be a valid pair.
+Encrypted keys are only checked with --unlock.
+The local DID doc is compared with the hosted one unless --local is used,
+and the crawl configs using each identity are listed.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        json: flags.boolean({ char: 'j', default: false, description: 'Output the report as JSON' }),
+        local: flags.boolean({ char: 'l', default: false, description: 'Skip comparing with the hosted DID docs' }),
+        unlock: flags.boolean({ char: 'u', default: false, description: 'Decrypt encrypted keys to check them' }),
+    }
+
+    async run() {
+        const { flags } = this.parse(IdentityList)
+
+        const oraStart = ora({ text: 'Preparing command...', isSilent: flags.json }).start();
+
+        const didDocs = listIdentities();
+        if (didDocs.length === 0) return oraStart.fail('No stored identities found');
+
+        const defResp = getDefaultIds();
+        const defKid = defResp.success ? defResp.data.kid : '';
+
+        // request passphrase if any keys are encrypted
+        const encrypted = didDocs.find(d => hasEncryptedKeys(d.id));
+        if (flags.unlock && typeof encrypted !== 'undefined') {
+            oraStart.stop();
+            const unlock = await unlockIdentity(encrypted.id);
+            if (unlock.success === false) return oraStart.fail(unlock.message);
+            oraStart.start();
+        }
+
+        oraStart.succeed('Command ready')
+        const oraList = ora({ text: `Checking ${didDocs.length} identities...`, isSilent: flags.json }).start();
+
+        const reports: IdentityReport[] = [];
+        for (let i = 0; i < didDocs.length; i++) {
+            const didDoc = didDocs[i];
+            oraList.text = `Checking ${didDoc.id}...`;
+
+            const keyItems = await checkStoredKeyPairs(didDoc, flags.unlock);
+
+            // compare with hosted DID doc
+            let hosted = 'skipped';
+            if (flags.local === false) {
+                const dResp = await diffDid(didDoc.id);
+                if (dResp.success) {
+                    const diff: DidDiff = dResp.data;
+                    const drift = Object.keys(diff).some(s => diff[s as keyof DidDiff].length > 0);
+                    hosted = drift ? 'drift' : 'match';
+                } else {
+                    hosted = 'unresolved';
+                }
+            }
+
+            reports.push({
+                did: didDoc.id,
+                name: didDoc.psqr.publicIdentity.name,
+                hosted,
+                crawls: listCrawlConfigs(didDoc.id).map(c => `${c.type} ${c.kid}`),
+                keys: keyItems.map(k => {
+                    return {
+                        kid: k.data.kid,
+                        status: k.data.status,
+                        default: k.data.kid === defKid,
+                    }
+                }),
+            });
+        }
+
+        const problems = reports.filter(r => r.hosted === 'drift' || r.keys.some(k => k.status === 'invalid' || k.status === 'missing'));
+        if (problems.length === 0) {
+            oraList.succeed(`Found ${reports.length} identities`);
+        } else {
+            oraList.warn(`Found ${reports.length} identities, ${problems.length} need attention`);
+        }
+
+        if (flags.json) return console.log(JSON.stringify(reports, null, 4));
+
+        // one row per key pair, identity columns are only filled on the first row
+        const rows: { [key: string]: string }[] = [];
+        reports.forEach(r => {
+            if (r.keys.length === 0) rows.push({ did: r.did, key: '', status: '', hosted: r.hosted, crawls: r.crawls.join(', ') });
+            r.keys.forEach((k, j) => {
+                rows.push({
+                    did: j === 0 ? r.did : '',
+                    key: k.kid.split('#')[1] + (k.default ? ' (default)' : ''),
+                    status: k.status,
+                    hosted: j === 0 ? r.hosted : '',
+                    crawls: j === 0 ? r.crawls.join(', ') : '',
+                });
+            });
+        });
+
+        CliUx.ux.table(rows, {
+            did: { header: 'DID' },
+            key: { header: 'Key' },
+            status: { header: 'Key Pair' },
+            hosted: { header: 'Hosted' },
+            crawls: { header: 'Crawls' },
+        });
+    }
+}
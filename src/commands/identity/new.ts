@@ -4,7 +4,7 @@ import { Static } from 'runtypes';
 import { createIdentity, addIdentity, setDefaultIdentity } from '../../functions/identity';
 import { handleRuntypeFail } from '../../functions/utility';
 import { KID_PSQR } from '../../types/base-types';
-import { PublicInfo } from '../../types/identity';
+import { KeyAlg, PublicInfo } from '../../types/identity';
 
 const getStdin = require('get-stdin');
 const ora = require('ora');
@@ -16,11 +16,12 @@ export default class IdentityNew extends Command {
     static description = `Create a new default identity
 This command creates a new identity from a provided KID URL,
 adds it to the psqr config, and sets it as the default.
-This only supports creating did:psqr identities.`
+This only supports creating did:psqr identities, or did:key identities by using did:key as the KID.`
 
     static flags = {
         help: flags.help({ char: 'h' }),
         stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as full JSON publicIdentity string' }),
+        alg: flags.enum({ char: 'a', options: ['ES384', 'ES256', 'EdDSA'], default: 'ES384', description: 'Algorithm of the keys to create' }),
 
         name: flags.string({ char: 'n', description: 'publicIdentity name, REQUIRED if no STDIN input' }),
         image: flags.string({ char: 'i', description: 'publicIdentity image url' }),
@@ -33,7 +34,7 @@ This only supports creating did:psqr identities.`
     static args = [
         {
             name: 'kid',
-            description: 'KID PSQR string, expected format: did:psqr:{hostname}/{path}#{keyId}',
+            description: 'KID PSQR string, expected format: did:psqr:{hostname}/{path}#{keyId}. Use did:key to derive a did:key identity from a new key.',
         },
     ]
 
@@ -56,7 +57,7 @@ This only supports creating did:psqr identities.`
         // validate and assign kid
         let kid: Static<typeof KID_PSQR>;
         try {
-            kid = KID_PSQR.check(args.kid);
+            kid = args.kid === 'did:key' ? args.kid : KID_PSQR.check(args.kid);
         } catch (error) {
             oraStart.fail('Invalid KID PSQR string specified, expected format: did:psqr:{hostname}/{path}#{keyId}');
             return false;
@@ -96,7 +97,7 @@ This only supports creating did:psqr identities.`
         }
 
         // finally create the full identity
-        const newId = await createIdentity(kid, info);
+        const newId = await createIdentity(kid, info, [], KeyAlg.check(flags.alg));
         if (newId.success === false) return oraCreate.fail(newId.message);
         const identity = newId.identity;
 
@@ -109,7 +110,7 @@ This only supports creating did:psqr identities.`
 
         // set newly added identity as default
         const oraDef = ora('Setting new identity as default...').start();
-        const defResp = setDefaultIdentity(kid);
+        const defResp = setDefaultIdentity(identity.keyPairs[0].kid);
         defResp.success ? oraDef.succeed(defResp.message) : oraDef.fail(defResp.message);
 
         return true;
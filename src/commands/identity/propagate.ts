@@ -1,7 +1,8 @@
 import { Command, flags, run as runCommand } from '@oclif/command'
 import { importJWK, CompactSign } from 'jose';
 
-import { parseDidUrl, verifyAdminIdentity, createIdentityAxiosClient } from '../../functions/identity';
+import { parseDidUrl, verifyAdminIdentity, createIdentityAxiosClient, unlockIdentity } from '../../functions/identity';
+import { recordSignature } from '../../functions/auditlog';
 
 const ora = require('ora');
 
@@ -41,6 +42,11 @@ It will use any available admin key associated with the identity or it will thro
         const did = args.did;
 
         oraStart.succeed('Command ready');
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(did);
+        if (unlock.success === false) return ora().fail(unlock.message);
+
         const oraRun = ora(`Propagating Identity to ${parseDidUrl(did)}...`).start();
 
         // verify admin identity via DID
@@ -55,10 +61,11 @@ It will use any available admin key associated with the identity or it will thro
 
         const signature = await new CompactSign(encoder.encode(JSON.stringify(idResp.identity.didDoc)))
             .setProtectedHeader({
-                alg: 'ES384',
+                alg: keyPair.private.alg,
                 kid: keyPair.kid,
             })
             .sign(key);
+        recordSignature(keyPair.kid, 'propagate', JSON.stringify(idResp.identity.didDoc));
 
         // create axios client for API endpoint with signature and PUT method
         const axResp = await createIdentityAxiosClient(did, 'PUT', signature);
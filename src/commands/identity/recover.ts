@@ -0,0 +1,105 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+import { Static } from 'runtypes';
+
+import { addIdentity, getDid, recoverKeyPairs } from '../../functions/identity';
+import { getMnemonic, MNEMONIC_VAR } from '../../functions/mnemonic';
+import { handleRuntypeFail } from '../../functions/utility';
+import { DID } from '../../types/base-types';
+import { Identity } from '../../types/identity';
+
+const ora = require('ora');
+
+/**
+ * Recovers the keys of an identity from a mnemonic seed phrase.
+ */
+export default class IdentityRecover extends Command {
+    static description = `Recover the keys of an identity from a mnemonic seed phrase.
+Every key pair that hasn't been revoked is derived from the mnemonic and checked against the publicKeys in the DID doc.
+Only keys created with --mnemonic on identity:create, key:new, or key:rotate can be recovered.
+The mnemonic is read from ${MNEMONIC_VAR} or prompted for.
+Matching keys are added to the cli config, use --force to add them even if some keys don't match.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        force: flags.boolean({ char: 'f', default: false, description: 'Add the matching keys even if other keys in the DID doc don\'t match' }),
+    }
+
+    static args = [
+        {
+            name: 'did',
+            description: 'DID URL string, expected format: did:(psqr|web|key):{hostname}(/|:){path}',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(IdentityRecover)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.did === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['identity:recover', '-h']);
+        }
+
+        // validate and assign did
+        let did: Static<typeof DID>;
+        try {
+            did = DID.check(args.did);
+        } catch (error) {
+            oraStart.fail('Invalid DID string specified, expected format: did:(psqr|web|key):{hostname}(/|:){path}');
+            return false;
+        }
+
+        // request mnemonic the keys were derived from
+        oraStart.stop();
+        let mnemonic: string;
+        try {
+            mnemonic = await getMnemonic();
+        } catch (error: any) {
+            return oraStart.fail(error.message);
+        }
+
+        oraStart.succeed('Command ready')
+        const oraRecover = ora(`Recovering keys for ${did}...`).start();
+
+        // get the DID doc listing the keys
+        const dResp = await getDid(did);
+        if (dResp.success === false) {
+            const msg = handleRuntypeFail(dResp.error);
+            return oraRecover.fail(msg);
+        }
+        const didDoc = dResp.didDoc;
+
+        // derive keys and compare them with the DID doc
+        const rResp = await recoverKeyPairs(didDoc, mnemonic);
+        if (typeof rResp.data === 'undefined') return oraRecover.fail(rResp.message);
+        const { keyPairs, matched, mismatched } = rResp.data;
+
+        matched.forEach((kid: string) => ora().succeed(`Recovered key ${kid}`));
+        mismatched.forEach((kid: string) => ora().fail(`Key ${kid} doesn't match the mnemonic`));
+
+        if (keyPairs.length === 0) return oraRecover.fail('No keys matching the mnemonic were found');
+        if (rResp.success === false && flags.force === false) {
+            return oraRecover.fail(rResp.message + ', use --force to add the matching keys anyway');
+        }
+        oraRecover.succeed(rResp.message);
+
+        // store recovered identity
+        const oraSave = ora('Saving Identity...').start();
+        const identity: Static<typeof Identity> = {
+            did: didDoc.id,
+            didDoc,
+            keyPairs,
+        }
+        const addResp = await addIdentity(identity);
+
+        if (addResp.success) {
+            oraSave.succeed(addResp.message)
+        } else {
+            oraSave.fail(addResp.message);
+        }
+        return addResp.success;
+    }
+}
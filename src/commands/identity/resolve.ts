@@ -1,7 +1,9 @@
 import { Command, flags, run as runCommand } from '@oclif/command'
 
 import { parseDidUrl } from '../../functions/identity';
-import { existsSync } from 'fs';
+import { handleRuntypeFail } from '../../functions/utility';
+import { toW3cDid } from '../../functions/w3c';
+import { existsSync, readFileSync } from 'fs';
 
 const ora = require('ora');
 const homedir = require('os').homedir();
@@ -11,10 +13,12 @@ const IDENTITY_PATH = `${homedir}/.config/psqr/identities`;
  * Self Hosts an Identity via finding the local file and the URL that must serve it.
  */
 export default class IdentityResolve extends Command {
-    static description = 'For Self Hosting the Identity, find the local file and the URL that must serve it.';
+    static description = `For Self Hosting the Identity, find the local file and the URL that must serve it.
+Use --w3c to output the DID doc as a standard W3C DID doc with JsonWebKey2020 verification methods that can be served instead.`;
 
     static flags = {
         help: flags.help({ char: 'h' }),
+        w3c: flags.boolean({ char: 'w', default: false, description: 'Output the DID doc as a standard W3C DID doc' }),
     }
 
     static args = [
@@ -25,7 +29,7 @@ export default class IdentityResolve extends Command {
     ]
 
     async run() {
-        const { args } = this.parse(IdentityResolve);
+        const { args, flags } = this.parse(IdentityResolve);
 
         const oraStart = ora('Preparing command...').start();
 
@@ -58,6 +62,18 @@ export default class IdentityResolve extends Command {
         };
 
         // return results and success
-        return oraRun.succeed(`${JSON.stringify(data)}`);
+        oraRun.succeed(`${JSON.stringify(data)}`);
+
+        if (flags.w3c) {
+            try {
+                const w3cDoc = toW3cDid(JSON.parse(readFileSync(didPath, 'utf-8')));
+                console.log(JSON.stringify(w3cDoc, null, 4));
+            } catch (error) {
+                const msg = handleRuntypeFail(error);
+                return ora().fail('Unable to convert DID doc because: ' + msg);
+            }
+        }
+
+        return true;
     }
 }
@@ -0,0 +1,135 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+import { importJWK, CompactSign } from 'jose';
+import { Static } from 'runtypes';
+
+import {
+    addIdentity, getFullIdentity, unlockIdentity, parseBareDid,
+    verifyAdminIdentity, createIdentityAxiosClient, parseDidUrl,
+} from '../../functions/identity';
+import { getDidVersion } from '../../functions/history';
+import { recordSignature } from '../../functions/auditlog';
+import { Did, Identity } from '../../types/identity';
+
+const ora = require('ora');
+
+const encoder = new TextEncoder();
+
+/**
+ * Restores an earlier version of the DID doc of an identity.
+ */
+export default class IdentityRollback extends Command {
+    static description = `Restore an earlier version of the DID doc of an identity.
+Use identity:history to list the saved versions.
+The restored DID doc gets a new psqr.updated timestamp and is saved as the latest version, so the rollback can be undone.
+Stored keys that aren't in the restored DID doc are not used until they are added again.
+Keys revoked in the current DID doc stay revoked and lose any permissions in the restored DID doc.
+The change is local unless --propagate is used.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        propagate: flags.boolean({ char: 'p', default: false, description: 'Propagate the restored DID doc using the current admin key' }),
+    }
+
+    static args = [
+        {
+            name: 'did',
+            description: 'DID URL string, expected format: did:(psqr|web):{hostname}(/|:){path}',
+        },
+        {
+            name: 'version',
+            description: 'psqr.updated timestamp of the version to restore',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(IdentityRollback)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.did === 'undefined' || typeof args.version === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['identity:rollback', '-h']);
+        }
+
+        const bdid = parseBareDid(args.did);
+        if (bdid === false) return oraStart.fail('Invalid DID string specified, expected format: did:(psqr|web):{hostname}(/|:){path}');
+
+        const version = getDidVersion(bdid, Number(args.version));
+        if (version === false) return oraStart.fail(`No saved version ${args.version} of ${bdid}`);
+
+        // request passphrase if the keys are encrypted
+        oraStart.stop();
+        const unlock = await unlockIdentity(bdid);
+        if (unlock.success === false) return oraStart.fail(unlock.message);
+        oraStart.start();
+
+        // get the current admin key before the rollback in case it isn't in the restored DID doc
+        let adminKeyPair;
+        if (flags.propagate) {
+            const adminResp = await verifyAdminIdentity(bdid);
+            if (adminResp.success === false) return oraStart.fail(adminResp.message);
+            adminKeyPair = adminResp.identity.keyPairs[0];
+        }
+
+        // retrieve identity
+        const idResp = await getFullIdentity(bdid);
+        if (idResp.success === false) {
+            return oraStart.fail('Unable to retrieve full identity because: ' + idResp.message);
+        }
+
+        oraStart.succeed('Command ready')
+        const oraRollback = ora(`Restoring version ${args.version} of ${bdid}...`).start();
+
+        // keep current revocations so a rollback can't bring back revoked keys,
+        // like key:rotate the public keys stay listed but lose their permissions
+        const now = Date.now();
+        const current = idResp.identity.didDoc.psqr.revoked || [];
+        const revoked = [...(version.didDoc.psqr.revoked || []).filter(r => current.every(c => c.kid !== r.kid)), ...current];
+        const inEffect = revoked.filter(r => r.revoked <= now).map(r => r.kid);
+
+        const didDoc: Static<typeof Did> = {
+            ...version.didDoc,
+            psqr: {
+                ...version.didDoc.psqr,
+                permissions: version.didDoc.psqr.permissions.filter(p => inEffect.includes(p.kid) === false),
+                ...(revoked.length > 0 ? { revoked } : {}),
+                updated: now,
+            },
+        };
+        const identity: Static<typeof Identity> = {
+            did: bdid,
+            didDoc,
+            keyPairs: idResp.identity.keyPairs,
+        }
+
+        // store restored identity
+        const addResp = await addIdentity(identity, false);
+        if (addResp.success === false) return oraRollback.fail(addResp.message);
+        oraRollback.succeed(`Restored version ${args.version} of ${bdid}`);
+
+        if (typeof adminKeyPair === 'undefined') return true;
+        const oraProp = ora(`Propagating Identity to ${parseDidUrl(bdid)}...`).start();
+
+        // sign the restored DID doc with the admin key from before the rollback
+        const key = await importJWK(adminKeyPair.private);
+        const signature = await new CompactSign(encoder.encode(JSON.stringify(didDoc)))
+            .setProtectedHeader({
+                alg: adminKeyPair.private.alg,
+                kid: adminKeyPair.kid,
+            })
+            .sign(key);
+        recordSignature(adminKeyPair.kid, 'propagate', JSON.stringify(didDoc));
+
+        // create axios client for API endpoint with signature and PUT method
+        const axResp = await createIdentityAxiosClient(bdid, 'PUT', signature);
+
+        if (axResp.success) {
+            oraProp.succeed(`Successfully propagated the DID for ${bdid} to ${parseDidUrl(bdid)}`);
+        } else {
+            oraProp.fail(axResp.message);
+        }
+        return axResp.success;
+    }
+}
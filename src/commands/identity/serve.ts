@@ -0,0 +1,75 @@
+import { Command, flags } from '@oclif/command'
+import { readFileSync } from 'fs';
+
+import { log, generateLogInput } from '../../functions/log'
+import { createDidServer, getDidRoutes } from '../../functions/server';
+import { handleRuntypeFail } from '../../functions/utility';
+
+const ora = require('ora');
+
+/**
+ * Hosts all stored identities with a local HTTP server.
+ */
+export default class IdentityServe extends Command {
+    static description = `Host all stored identities with a local HTTP server.
+Every DID doc is served at the path of the URL identity:resolve shows for it,
+ie /.well-known/did.json or /{path}/did.json for did:web and /{path} for did:psqr.
+Responses include the DID content type and an ETag.
+DID resolvers only use https, so provide a --cert and --key and point the hostnames at this server to test resolution locally.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        port: flags.integer({ char: 'p', default: 8080, description: 'Port to listen on' }),
+        bind: flags.string({ char: 'b', default: '127.0.0.1', description: 'Address to listen on' }),
+        cert: flags.string({ char: 'c', description: 'Path to a PEM certificate to serve HTTPS with, requires --key' }),
+        key: flags.string({ char: 'k', description: 'Path to the PEM private key of the certificate, requires --cert' }),
+        w3c: flags.boolean({ char: 'w', default: false, description: 'Serve did:web docs as standard W3C DID docs' }),
+    }
+
+    async run() {
+        const { flags } = this.parse(IdentityServe)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof flags.cert !== typeof flags.key) return oraStart.fail('Both --cert and --key are required to serve HTTPS');
+
+        // load certificate
+        let cert: string | undefined;
+        let key: string | undefined;
+        try {
+            if (typeof flags.cert === 'string') cert = readFileSync(flags.cert, 'utf-8');
+            if (typeof flags.key === 'string') key = readFileSync(flags.key, 'utf-8');
+        } catch (error) {
+            const msg = handleRuntypeFail(error);
+            return oraStart.fail('Unable to read certificate because: ' + msg);
+        }
+
+        const routes = getDidRoutes(flags.w3c);
+        if (routes.length === 0) return oraStart.fail('No stored identities can be hosted');
+
+        oraStart.succeed('Command ready')
+        const oraServe = ora('Starting server...').start();
+
+        const server = createDidServer({ w3c: flags.w3c, cert, key }, console.log);
+        server.on('error', (error: Error) => oraServe.fail('Server error: ' + error.message));
+        server.listen(flags.port, flags.bind, () => {
+            const protocol = typeof cert === 'string' ? 'https' : 'http';
+            oraServe.succeed(`Serving ${routes.length} identities at ${protocol}://${flags.bind}:${flags.port}, press Ctrl+C to stop`);
+
+            const logInput = generateLogInput(process.argv);
+            logInput.title = 'Hosted Identities';
+            logInput.code = routes.map(r => {
+                return {
+                    key: r.did,
+                    obj: {
+                        host: r.host,
+                        path: r.path,
+                        contentType: r.contentType,
+                    },
+                }
+            });
+            log(logInput);
+        });
+    }
+}
@@ -1,7 +1,8 @@
 import { Command, flags, run as runCommand } from '@oclif/command'
 import { Static } from 'runtypes';
 
-import { addExistingKeyPair, getDid, getKeyPair, parseBareDid, parseKidKey, validateIdentity } from '../../functions/identity';
+import { addExistingKeyPair, getDid, getKeyPair, parseBareDid, parseKidKey, unlockIdentity, validateIdentity } from '../../functions/identity';
+import { parseKeyPair } from '../../functions/keyformat';
 import { handleRuntypeFail, FileConfig, retrieveFiles } from '../../functions/utility';
 import { KID_PSQR } from '../../types/base-types';
 import { KeyPair, Identity } from '../../types/identity';
@@ -16,6 +17,7 @@ export default class IdentityValidate extends Command {
     static description = `Validate an identity (DID doc and key pair)
 Use the import flag to import the key into the local identity as well.
 If no key path is specified and no stdin input is provided then this will fallback to checking in the local directory of the identity.
+Keys from stdin, raw input, or a key file can be PEM/PKCS#8, JWKS, or JWK and are assigned the specified KID.
 `
 
     static flags = {
@@ -23,6 +25,7 @@ If no key path is specified and no stdin input is provided then this will fallba
         stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as key instead of key PATH' }),
         raw: flags.boolean({ char: 'r', default: false, description: 'Key PATH specified is raw (not a filepath), you need to escape "' }),
         absolute: flags.boolean({ char: 'a', default: false, description: 'Key PATH is an absolute path' }),
+        file: flags.boolean({ char: 'f', default: false, description: 'Key PATH is a PEM/PKCS#8, JWKS, or JWK key file instead of a directory' }),
     }
 
     static args = [
@@ -32,7 +35,7 @@ If no key path is specified and no stdin input is provided then this will fallba
         },
         {
             name: 'path',
-            description: 'Path to directory containing keys in the form of a JWK, expected algorithm: ES384. Expected files are private.jwk and public.jwk',
+            description: 'Path to directory containing keys in the form of a JWK, expected algorithm: ES384, ES256 or EdDSA. Expected files are private.jwk and public.jwk. With --file this is the path to a key file',
         },
     ]
 
@@ -58,6 +61,11 @@ If no key path is specified and no stdin input is provided then this will fallba
         }
 
         oraStart.succeed('Command ready')
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(kid);
+        if (unlock.success === false) return ora().fail(unlock.message);
+
         const oraRun = ora('Validating Identity...').start();
 
         // separate bare did and key name
@@ -89,13 +97,11 @@ If no key path is specified and no stdin input is provided then this will fallba
                 const kIn = await getStdin();
                 if (kIn === null || kIn === '') return oraRun.fail('Invalid stdin');
 
-                // assemble and validate new key pair
-                try {
-                    keyPair = KeyPair.check(JSON.parse(kIn))
-                } catch (error) {
-                    const msg = handleRuntypeFail(error);
-                    return oraRun.fail(msg)
-                }
+                // convert and validate new key pair
+                const pkResp = await parseKeyPair(kIn, kid);
+                if (pkResp.success === false) return oraRun.fail(pkResp.message);
+
+                keyPair = pkResp.data;
                 break;
             }
             case typeof path === 'undefined': {
@@ -109,13 +115,25 @@ If no key path is specified and no stdin input is provided then this will fallba
                 break;
             }
             case flags.raw: {
-                // assemble and validate key pair from raw
-                try {
-                    keyPair = KeyPair.check(JSON.parse(path))
-                } catch (error) {
-                    const msg = handleRuntypeFail(error);
-                    return oraRun.fail(msg)
+                // convert and validate key pair from raw
+                const pkResp = await parseKeyPair(path, kid);
+                if (pkResp.success === false) return oraRun.fail(pkResp.message);
+
+                keyPair = pkResp.data;
+                break;
+            }
+            case flags.file: {
+                // convert and validate key pair from key file
+                const kfResp = await retrieveFiles([{ path, relative: flags.absolute === false }]);
+                const f = kfResp.files[0];
+                if (kfResp.success === false || typeof f !== 'object' || typeof f.data !== 'string') {
+                    return oraRun.fail('Unable to find key file at ' + path);
                 }
+
+                const pkResp = await parseKeyPair(f.data, kid);
+                if (pkResp.success === false) return oraRun.fail(pkResp.message);
+
+                keyPair = pkResp.data;
                 break;
             }
             default: {
@@ -1,7 +1,8 @@
 import { Command, flags, run as runCommand } from '@oclif/command'
 import { Static } from 'runtypes';
 
-import { addExistingKeyPair, addIdentity, getFullIdentity, parseBareDid, parseKidKey } from '../../functions/identity';
+import { addExistingKeyPair, addIdentity, getFullIdentity, parseBareDid, parseKidKey, unlockIdentity } from '../../functions/identity';
+import { parseKeyPair } from '../../functions/keyformat';
 import { FileConfig, handleRuntypeFail, retrieveFiles } from '../../functions/utility';
 import { KeyPair } from '../../types/identity';
 
@@ -14,14 +15,17 @@ const ora = require('ora');
 export default class KeyAdd extends Command {
     static description = `Add a preexisting Key to an identity stored in the cli config.
 Specify the path to the directory containing them with --path,
+the path to a PEM/PKCS#8, JWKS, or JWK key file with --file,
 or pass the entire KeyPair as a JSON string with --stdin.
+Keys from a key file or stdin are assigned the specified KID.
 `
 
     static flags = {
         help: flags.help({ char: 'h' }),
-        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as KeyPair. Expected JSON string format: { kid, private, public }' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as KeyPair. Expected JSON string format: { kid, private, public }, or any format accepted by --file' }),
         path: flags.string({ char: 'p', description: 'Use the keys from this directory. Expected files are private.jwk and public.jwk' }),
-        absolute: flags.boolean({ char: 'a', default: false, description: 'Key directory path is an absolute path' }),
+        file: flags.string({ char: 'f', description: 'Use the key from this file. Accepted formats are PEM/PKCS#8, JWKS, and JWK' }),
+        absolute: flags.boolean({ char: 'a', default: false, description: 'Key directory or file path is an absolute path' }),
     }
 
     static args = [
@@ -36,7 +40,7 @@ or pass the entire KeyPair as a JSON string with --stdin.
 
         const oraStart = ora('Preparing command...').start();
 
-        const keySpecified = typeof flags.path !== 'undefined' || flags.stdin;
+        const keySpecified = typeof flags.path !== 'undefined' || typeof flags.file !== 'undefined' || flags.stdin;
         if (typeof args.kid === 'undefined' || keySpecified === false) {
             // if you want to run another command it must be returned like so
             oraStart.fail('Insufficient arguments provided\n')
@@ -51,6 +55,12 @@ or pass the entire KeyPair as a JSON string with --stdin.
         const keyName = parseKidKey(kid);
         if (keyName === false) return oraStart.fail('Unable to parse key name from kid ' + kid);
 
+        // request passphrase if the keys are encrypted
+        oraStart.stop();
+        const unlock = await unlockIdentity(bdid);
+        if (unlock.success === false) return oraStart.fail(unlock.message);
+        oraStart.start();
+
         // retrieve identity
         const idResp = await getFullIdentity(bdid);
         if (idResp.success === false) {
@@ -63,20 +73,25 @@ or pass the entire KeyPair as a JSON string with --stdin.
 
         let keyPair;
         if (typeof flags.path === 'undefined') {
-            // get stdin
-            const kIn = await getStdin();
-            if (kIn === null || kIn === '') return oraValid.fail('Invalid stdin');
-
-            // assemble and validate new key pair
-            let stdinKeyPair: Static<typeof KeyPair>;
-            try {
-                stdinKeyPair = KeyPair.check(JSON.parse(kIn))
-            } catch (error) {
-                const msg = handleRuntypeFail(error);
-                return oraValid.fail(msg)
+            // get key data from file or stdin
+            let kIn;
+            if (typeof flags.file === 'undefined') {
+                kIn = await getStdin();
+                if (kIn === null || kIn === '') return oraValid.fail('Invalid stdin');
+            } else {
+                const kfResp = await retrieveFiles([{ path: flags.file, relative: flags.absolute === false }]);
+                const f = kfResp.files[0];
+                if (kfResp.success === false || typeof f !== 'object' || typeof f.data !== 'string') {
+                    return oraValid.fail('Unable to find key file at ' + flags.file);
+                }
+                kIn = f.data;
             }
 
-            keyPair = stdinKeyPair;
+            // convert and validate new key pair
+            const pkResp = await parseKeyPair(kIn, kid);
+            if (pkResp.success === false) return oraValid.fail(pkResp.message);
+
+            keyPair = pkResp.data;
         } else {
             // generate config for both keys
             const privPath = flags.path + '/private.jwk';
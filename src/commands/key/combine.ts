@@ -0,0 +1,127 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+import { Static } from 'runtypes';
+
+import { addExistingKeyPair, addIdentity, getFullIdentity, parseBareDid, unlockIdentity } from '../../functions/identity';
+import { combineKeyShares } from '../../functions/shamir';
+import { FileConfig, handleRuntypeFail, retrieveFiles } from '../../functions/utility';
+import { verifyKeyPairs } from '../../functions/validate';
+import { KeyShare, PrivateKey } from '../../types/identity';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Rebuilds a Private Key from Shamir secret shares and adds it to its identity.
+ */
+export default class KeyCombine extends Command {
+    static description = `Rebuild a Private Key from Shamir secret shares created with key:split.
+Specify the share files as a comma separated list, or pass one JSON share per line with --stdin.
+The rebuilt key is checked against the public key in the DID doc before it is added to the identity.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as key shares. Expected one JSON share per line' }),
+        absolute: flags.boolean({ char: 'a', default: false, description: 'Share file paths are absolute paths' }),
+    }
+
+    static args = [
+        {
+            name: 'shares',
+            description: 'Comma (,) separated list of paths to key share files',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(KeyCombine)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.shares === 'undefined' && flags.stdin === false) {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['key:combine', '-h']);
+        }
+
+        // get raw shares from stdin or files
+        const rawShares: string[] = [];
+        if (flags.stdin) {
+            const sIn = await getStdin();
+            if (sIn === null || sIn === '') return oraStart.fail('Invalid stdin');
+            rawShares.push(...sIn.split('\n').filter((l: string) => l.trim() !== ''));
+        } else {
+            const files: FileConfig[] = args.shares.split(',').map((p: string) => {
+                return {
+                    path: p.trim(),
+                    relative: flags.absolute === false,
+                }
+            });
+            const fResp = await retrieveFiles(files);
+            if (fResp.success === false) return oraStart.fail('Unable to retrieve key shares because: ' + fResp.message);
+
+            fResp.files.forEach(f => {
+                if (typeof f === 'object' && typeof f.data === 'string') rawShares.push(f.data);
+            });
+        }
+
+        // validate shares
+        let keyShares: Static<typeof KeyShare>[];
+        try {
+            keyShares = rawShares.map(s => KeyShare.check(JSON.parse(s)));
+        } catch (error) {
+            const msg = handleRuntypeFail(error);
+            return oraStart.fail('Invalid key share: ' + msg);
+        }
+        if (keyShares.length === 0) return oraStart.fail('No key shares provided');
+
+        const kid = keyShares[0].kid;
+        const bdid = parseBareDid(kid);
+        if (bdid === false) return oraStart.fail('Unable to parse bare did from kid ' + kid);
+
+        // request passphrase if the keys are encrypted
+        oraStart.stop();
+        const unlock = await unlockIdentity(bdid);
+        if (unlock.success === false) return oraStart.fail(unlock.message);
+        oraStart.start();
+
+        // retrieve identity
+        const idResp = await getFullIdentity(bdid);
+        if (idResp.success === false) {
+            return oraStart.fail('Unable to retrieve full identity because: ' + idResp.message);
+        }
+        let identity = idResp.identity;
+
+        oraStart.succeed('Command ready')
+        const oraCombine = ora('Rebuilding Private Key...').start();
+
+        const cResp = combineKeyShares(keyShares);
+        if (cResp.success === false) return oraCombine.fail(cResp.message);
+        const privKey: Static<typeof PrivateKey> = cResp.data;
+
+        // ensure the rebuilt key matches the public key in the DID doc
+        const pubKey = identity.didDoc.psqr.publicKeys.filter(k => k.kid === kid)[0];
+        if (typeof pubKey === 'undefined') return oraCombine.fail(`Key ${kid} is not present in the DID`);
+        if (await verifyKeyPairs(pubKey, privKey) === false) {
+            return oraCombine.fail(`Rebuilt key does not match the public key of ${kid} in the DID`);
+        }
+        oraCombine.succeed(cResp.message);
+
+        const oraAdd = ora('Adding Key Pair...').start();
+
+        // add rebuilt key to current identity
+        const skResp = await addExistingKeyPair(identity, { kid, private: privKey, public: pubKey }, true);
+        if (skResp.success === false) return oraAdd.fail(skResp.message);
+
+        identity = skResp.identity;
+
+        // store full identity
+        const addResp = await addIdentity(identity);
+
+        if (addResp.success) {
+            oraAdd.succeed(`Successfully added ${kid} to ${bdid}`)
+        } else {
+            oraAdd.fail(addResp.message);
+        }
+        return addResp.success;
+    }
+}
@@ -0,0 +1,71 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+
+import { hasEncryptedKeys, setKeyEncryption } from '../../functions/identity';
+import { getPassphrase, setPassphrase } from '../../functions/keystore';
+import { handleRuntypeFail } from '../../functions/utility';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Decrypts the stored private keys of an identity so they are stored as plaintext JWKs.
+ */
+export default class KeyDecrypt extends Command {
+    static description = `Decrypt the stored private keys of an identity.
+The keys will be stored as plaintext JWKs afterwards.
+The passphrase is taken from stdin, the PSQR_PASSPHRASE env var, or a prompt.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as the passphrase' }),
+    }
+
+    static args = [
+        {
+            name: 'did',
+            description: 'DID URL string, expected format: did:(psqr|web):{hostname}(/|:){path}',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(KeyDecrypt)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.did === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['key:decrypt', '-h']);
+        }
+
+        const did = args.did;
+
+        if (hasEncryptedKeys(did) === false) {
+            return oraStart.fail(`Keys for ${did} are not encrypted`);
+        }
+
+        oraStart.succeed('Command ready')
+
+        // get current passphrase
+        let passphrase: string;
+        try {
+            if (flags.stdin) setPassphrase(await getStdin());
+            passphrase = await getPassphrase();
+        } catch (error) {
+            const msg = handleRuntypeFail(error);
+            return ora().fail('Unable to get passphrase because: ' + msg);
+        }
+
+        const oraDec = ora('Decrypting Keys...').start();
+
+        const resp = await setKeyEncryption(did, '', passphrase);
+
+        if (resp.success) {
+            oraDec.succeed(resp.message)
+        } else {
+            oraDec.fail(resp.message);
+        }
+        return resp.success;
+    }
+}
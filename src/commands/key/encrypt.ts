@@ -0,0 +1,71 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+
+import { hasEncryptedKeys, setKeyEncryption } from '../../functions/identity';
+import { getPassphrase, setPassphrase } from '../../functions/keystore';
+import { handleRuntypeFail } from '../../functions/utility';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Encrypts the stored private keys of an identity with a passphrase.
+ */
+export default class KeyEncrypt extends Command {
+    static description = `Encrypt the stored private keys of an identity with a passphrase.
+The passphrase is taken from stdin, the PSQR_PASSPHRASE env var, or a prompt.
+Encrypted keys are decrypted with the same passphrase whenever they are used.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as the passphrase' }),
+    }
+
+    static args = [
+        {
+            name: 'did',
+            description: 'DID URL string, expected format: did:(psqr|web):{hostname}(/|:){path}',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(KeyEncrypt)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.did === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['key:encrypt', '-h']);
+        }
+
+        const did = args.did;
+
+        if (hasEncryptedKeys(did)) {
+            return oraStart.fail(`Keys for ${did} are already encrypted. Use key:decrypt first to change the passphrase.`);
+        }
+
+        oraStart.succeed('Command ready')
+
+        // get new passphrase
+        let passphrase: string;
+        try {
+            if (flags.stdin) setPassphrase(await getStdin());
+            passphrase = await getPassphrase(true);
+        } catch (error) {
+            const msg = handleRuntypeFail(error);
+            return ora().fail('Unable to get passphrase because: ' + msg);
+        }
+
+        const oraEnc = ora('Encrypting Keys...').start();
+
+        const resp = await setKeyEncryption(did, passphrase);
+
+        if (resp.success) {
+            oraEnc.succeed(resp.message)
+        } else {
+            oraEnc.fail(resp.message);
+        }
+        return resp.success;
+    }
+}
@@ -3,7 +3,8 @@ import { Command, flags, run as runCommand } from '@oclif/command';
 import { createJWS } from '../../functions/post';
 import { getVars } from '../../functions/env';
 import { createFiles, retrieveFiles } from '../../functions/utility';
-import { getKeyPair } from '../../functions/identity';
+import { getKeyPair, unlockIdentity } from '../../functions/identity';
+import { setPassphrase } from '../../functions/keystore';
 
 const getStdin = require('get-stdin');
 const ora = require('ora');
@@ -19,6 +20,7 @@ export default class KeyJws extends Command {
         stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as DATA' }),
         raw: flags.boolean({ char: 'r', default: false, description: 'DATA specified is raw (not a filepath), you need to escape "' }),
         kid: flags.string({ char: 'k', description: 'KID string' }),
+        passphraseStdin: flags.boolean({ default: false, description: 'Use STDIN input as the passphrase of encrypted keys' }),
     }
 
     static args = [
@@ -31,6 +33,12 @@ export default class KeyJws extends Command {
     async run() {
         const { args, flags } = this.parse(KeyJws)
 
+        // read the passphrase before STDIN is used for anything else
+        if (flags.passphraseStdin === true) {
+            if (flags.stdin === true) return ora().fail('Unable to use STDIN for both the passphrase and DATA');
+            setPassphrase(await getStdin());
+        }
+
         const oraStart = ora('Preparing command...').start();
 
         if (flags.stdin === true) args.data = await getStdin();
@@ -54,6 +62,11 @@ export default class KeyJws extends Command {
         }
 
         oraStart.succeed('Command ready')
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(flags.kid || '');
+        if (unlock.success === false) return ora().fail(unlock.message);
+
         const oraCreate = ora('Creating JWS...').start();
 
         // get keyPair object
@@ -1,6 +1,9 @@
 import { Command, flags, run as runCommand } from '@oclif/command'
 
-import { addIdentity, addNewKeyPair, getFullIdentity } from '../../functions/identity';
+import { addIdentity, addNewKeyPair, getFullIdentity, KeyValidity, unlockIdentity } from '../../functions/identity';
+import { getMnemonic, MNEMONIC_VAR } from '../../functions/mnemonic';
+import { convertToTimestamp } from '../../functions/utility';
+import { KeyAlg } from '../../types/identity';
 
 const ora = require('ora');
 
@@ -9,10 +12,17 @@ const ora = require('ora');
  */
 export default class KeyNew extends Command {
     static description = `Create new Keys and add them to a preexisting identity.
+With --mnemonic the keys are derived from the mnemonic seed phrase in ${MNEMONIC_VAR} or one that is prompted for.
+--notBefore and --expires accept a date (YYYY-MM-DD or ISO 8601) or a duration from now, ie 90d.
+Keys outside of their validity period are refused for signing, use identity:audit to find keys that expire soon.
 `
 
     static flags = {
         help: flags.help({ char: 'h' }),
+        alg: flags.enum({ char: 'a', options: ['ES384', 'ES256', 'EdDSA'], default: 'ES384', description: 'Algorithm of the keys to create' }),
+        mnemonic: flags.boolean({ char: 'm', default: false, description: 'Derive the keys from a mnemonic seed phrase' }),
+        notBefore: flags.string({ char: 'b', description: 'Date or duration from now when the keys become valid' }),
+        expires: flags.string({ char: 'e', description: 'Date or duration from now when the keys expire' }),
     }
 
     static args = [
@@ -27,7 +37,7 @@ export default class KeyNew extends Command {
     ]
 
     async run() {
-        const { args } = this.parse(KeyNew)
+        const { args, flags } = this.parse(KeyNew)
 
         const oraStart = ora('Preparing command...').start();
 
@@ -40,6 +50,35 @@ export default class KeyNew extends Command {
         const did = args.did;
         const keyNames = args.names.replace(/\s/g, '').split(',');
 
+        // parse validity period
+        const validity: KeyValidity = {};
+        if (typeof flags.notBefore === 'string') {
+            const notBefore = convertToTimestamp(flags.notBefore, 'future');
+            if (notBefore === false) return oraStart.fail(`Unable to parse notBefore ${flags.notBefore}`);
+            validity.notBefore = notBefore;
+        }
+        if (typeof flags.expires === 'string') {
+            const expires = convertToTimestamp(flags.expires, 'future');
+            if (expires === false) return oraStart.fail(`Unable to parse expires ${flags.expires}`);
+            validity.expires = expires;
+        }
+
+        // request passphrase if the keys are encrypted
+        oraStart.stop();
+        const unlock = await unlockIdentity(did);
+        if (unlock.success === false) return oraStart.fail(unlock.message);
+
+        // request mnemonic to derive the keys from
+        let mnemonic = '';
+        if (flags.mnemonic) {
+            try {
+                mnemonic = await getMnemonic();
+            } catch (error: any) {
+                return oraStart.fail(error.message);
+            }
+        }
+        oraStart.start();
+
         // retrieve identity
         const idResp = await getFullIdentity(did);
         if (idResp.success === false) {
@@ -53,7 +92,7 @@ export default class KeyNew extends Command {
         for (let i = 0; i < keyNames.length; i++) {
             const name = keyNames[i];
 
-            const nkResp = await addNewKeyPair(identity, did, name);
+            const nkResp = await addNewKeyPair(identity, did, name, KeyAlg.check(flags.alg), mnemonic, validity);
             if (nkResp.success === false) return oraAdd.fail(nkResp.message);
 
             identity = nkResp.identity;
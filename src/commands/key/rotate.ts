@@ -0,0 +1,142 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+import { importJWK, CompactSign } from 'jose';
+
+import { getVars } from '../../functions/env';
+import { deleteFiles } from '../../functions/utility';
+import {
+    addIdentity, getFullIdentity, unlockIdentity, rotateKeyPair, parseIdentityPaths,
+    setDefaultIdentity, verifyAdminIdentity, createIdentityAxiosClient, parseDidUrl,
+} from '../../functions/identity';
+import { recordSignature } from '../../functions/auditlog';
+import { getMnemonic, MNEMONIC_VAR } from '../../functions/mnemonic';
+
+const ora = require('ora');
+
+const encoder = new TextEncoder();
+
+/**
+ * Replaces a Key of a preexisting identity and revokes the old one.
+ */
+export default class KeyRotate extends Command {
+    static description = `Replace a Key of a preexisting identity with a newly generated one.
+The grants of the old key are moved to the new key and the old key is marked as revoked in the DID doc.
+Signatures made by the old key after it was revoked will be rejected.
+Any changes to the DID doc are local unless --propagate is used.
+With --mnemonic the new key is derived from the mnemonic seed phrase in ${MNEMONIC_VAR} or one that is prompted for,
+otherwise it is random and can't be recovered with identity:recover.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        name: flags.string({ char: 'n', description: 'Name of the replacement key, defaults to the old name with an incremented number' }),
+        propagate: flags.boolean({ char: 'p', default: false, description: 'Propagate the updated DID doc using the admin key' }),
+        mnemonic: flags.boolean({ char: 'm', default: false, description: 'Derive the new key from a mnemonic seed phrase' }),
+    }
+
+    static args = [
+        {
+            name: 'kid',
+            description: 'KID string of the key to rotate, expected format: did:(psqr|web):{hostname}(/|:){path}#{keyId}',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(KeyRotate)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.kid === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['key:rotate', '-h']);
+        }
+
+        const kid = args.kid;
+
+        // get paths of the old key files, this also checks the key exists locally
+        const paths = parseIdentityPaths(kid);
+        if (paths.success === false) return oraStart.fail(paths.message);
+        const { bdid, kname, privPath, pubPath } = paths.data;
+
+        // request passphrase if the keys are encrypted
+        oraStart.stop();
+        const unlock = await unlockIdentity(bdid);
+        if (unlock.success === false) return oraStart.fail(unlock.message);
+
+        // request mnemonic to derive the new key from
+        let mnemonic = '';
+        if (flags.mnemonic) {
+            try {
+                mnemonic = await getMnemonic();
+            } catch (error: any) {
+                return oraStart.fail(error.message);
+            }
+        }
+        oraStart.start();
+
+        // get the current admin key before rotating in case it is the one being replaced
+        let adminKeyPair;
+        if (flags.propagate) {
+            const adminResp = await verifyAdminIdentity(bdid);
+            if (adminResp.success === false) return oraStart.fail(adminResp.message);
+            adminKeyPair = adminResp.identity.keyPairs[0];
+        }
+
+        // retrieve identity
+        const idResp = await getFullIdentity(bdid);
+        if (idResp.success === false) {
+            return oraStart.fail('Unable to retrieve full identity because: ' + idResp.message);
+        }
+
+        oraStart.succeed('Command ready')
+        const oraRotate = ora(`Rotating Key ${kid}...`).start();
+
+        const rResp = await rotateKeyPair(idResp.identity, kid, flags.name || '', mnemonic);
+        if (rResp.success === false) return oraRotate.fail(rResp.message);
+        const identity = rResp.identity;
+
+        // store full identity and remove the old key files
+        const addResp = await addIdentity(identity);
+        if (addResp.success === false) return oraRotate.fail(addResp.message);
+
+        const dResp = await deleteFiles([
+            { path: privPath, relative: false },
+            { path: pubPath, relative: false },
+        ]);
+        if (dResp.success === false) return oraRotate.fail('Unable to remove old key files because: ' + dResp.message);
+
+        // update the default identity if it used the old key
+        const revoked = identity.didDoc.psqr.revoked || [];
+        const newKid = revoked.filter(r => r.kid === kid)[0].replacedBy || '';
+        const env = getVars(['DEFAULT_DID', 'DEFAULT_KEY']);
+        if (env.DEFAULT_DID === bdid && env.DEFAULT_KEY === kname) {
+            const defResp = setDefaultIdentity(newKid);
+            if (defResp.success === false) return oraRotate.fail(defResp.message);
+        }
+
+        oraRotate.succeed(rResp.message);
+
+        if (typeof adminKeyPair === 'undefined') return true;
+        const oraProp = ora(`Propagating Identity to ${parseDidUrl(bdid)}...`).start();
+
+        // sign the updated DID doc with the admin key from before the rotation
+        const key = await importJWK(adminKeyPair.private);
+        const signature = await new CompactSign(encoder.encode(JSON.stringify(identity.didDoc)))
+            .setProtectedHeader({
+                alg: adminKeyPair.private.alg,
+                kid: adminKeyPair.kid,
+            })
+            .sign(key);
+        recordSignature(adminKeyPair.kid, 'propagate', JSON.stringify(identity.didDoc));
+
+        // create axios client for API endpoint with signature and PUT method
+        const axResp = await createIdentityAxiosClient(bdid, 'PUT', signature);
+
+        if (axResp.success) {
+            oraProp.succeed(`Successfully propagated the DID for ${bdid} to ${parseDidUrl(bdid)}`);
+        } else {
+            oraProp.fail(axResp.message);
+        }
+        return axResp.success;
+    }
+}
@@ -0,0 +1,102 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+
+import { getKeyPair, parseIdentityPaths, unlockIdentity } from '../../functions/identity';
+import { splitPrivateKey } from '../../functions/shamir';
+import { createFiles, deleteFiles, FileConfig } from '../../functions/utility';
+
+const ora = require('ora');
+
+/**
+ * Splits a stored Private Key into Shamir secret shares.
+ */
+export default class KeySplit extends Command {
+    static description = `Split a stored Private Key into N-of-M Shamir secret shares.
+Any --threshold amount of the --shares can rebuild the key with key:combine, fewer reveal nothing about it.
+Shares are written to individual files in --output or printed as one JSON share per line.
+Use --delete to remove the stored Private Key once it has been split so no single person holds it.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        threshold: flags.integer({ char: 't', default: 3, description: 'Number of shares required to rebuild the key' }),
+        shares: flags.integer({ char: 'n', default: 5, description: 'Total number of shares to create' }),
+        output: flags.string({ char: 'o', description: 'Directory to write the share files to instead of printing them' }),
+        absolute: flags.boolean({ char: 'a', default: false, description: 'Output directory path is an absolute path' }),
+        delete: flags.boolean({ char: 'd', default: false, description: 'Delete the stored Private Key after splitting it' }),
+    }
+
+    static args = [
+        {
+            name: 'kid',
+            description: 'KID string of the key to split, expected format: did:(psqr|web):{hostname}(/|:){path}#{keyId}',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(KeySplit)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.kid === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['key:split', '-h']);
+        }
+
+        const kid = args.kid;
+        const paths = parseIdentityPaths(kid);
+        if (paths.success === false) return oraStart.fail(paths.message);
+        const { bdid, kname, privPath } = paths.data;
+
+        // request passphrase if the keys are encrypted
+        oraStart.stop();
+        const unlock = await unlockIdentity(bdid);
+        if (unlock.success === false) return oraStart.fail(unlock.message);
+        oraStart.start();
+
+        // retrieve private key
+        const kResp = await getKeyPair(kid);
+        if (kResp.success === false) return oraStart.fail('Unable to retrieve key because: ' + kResp.message);
+        const privKey = kResp.keyPairs[0].private;
+
+        oraStart.succeed('Command ready')
+        const oraSplit = ora('Splitting Private Key...').start();
+
+        const sResp = splitPrivateKey(privKey, flags.threshold, flags.shares);
+        if (sResp.success === false) return oraSplit.fail(sResp.message);
+        oraSplit.succeed(sResp.message);
+
+        // write shares to individual files or print them
+        if (typeof flags.output === 'undefined') {
+            sResp.data.forEach((s: object) => console.log(JSON.stringify(s)));
+        } else {
+            const oraSave = ora('Saving key shares...').start();
+            const files: FileConfig[] = sResp.data.map((s: { index: number }) => {
+                return {
+                    path: `${flags.output}/${kname}.share-${s.index}.json`,
+                    relative: flags.absolute === false,
+                    data: s,
+                }
+            });
+
+            const nf = await createFiles(files);
+            if (nf.success === false) return oraSave.fail('Unable to save key shares because: ' + nf.message);
+
+            let msg = `Saved ${files.length} key shares`;
+            for (let i = 0; i < nf.files.length; i++) {
+                msg += '\nCreated File: ' + nf.files[i];
+            }
+            oraSave.succeed(msg);
+        }
+
+        if (flags.delete === false) return true;
+
+        // remove the stored private key, the public key stays so the key can be rebuilt later
+        const oraDelete = ora('Deleting stored Private Key...').start();
+        const dResp = await deleteFiles([{ path: privPath, relative: false }]);
+        if (dResp.success === false) return oraDelete.fail('Unable to delete Private Key because: ' + dResp.message);
+        oraDelete.succeed(`Deleted stored Private Key for ${kid}`);
+
+        return true;
+    }
+}
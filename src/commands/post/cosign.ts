@@ -0,0 +1,116 @@
+import { Command, flags, run as runCommand } from '@oclif/command';
+
+import { cosignPost } from '../../functions/post';
+import { createFiles, retrieveFiles } from '../../functions/utility';
+import { getKeyPair, unlockIdentity, verifyKeyGrant } from '../../functions/identity';
+import { setPassphrase } from '../../functions/keystore';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Adds a signature from another key to a signed post.
+ */
+export default class PostCosign extends Command {
+    static description = `Add a signature from another key to a signed post.
+DATA can be a JWS as created by post:sign or post:cosign, or a bare JWS token.
+The co-signed post is a JWS in General JSON Serialization with a signature from every signer over the same payload.
+If DATA is a file the signature is added to it, otherwise a new file is created.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as DATA' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'DATA specified is raw (not a filepath), you need to escape "' }),
+        kid: flags.string({ char: 'k', description: 'KID string' }),
+        passphraseStdin: flags.boolean({ default: false, description: 'Use STDIN input as the passphrase of encrypted keys' }),
+        force: flags.boolean({ char: 'f', default: false, description: 'Sign even if the key is not granted publish in its DID doc' }),
+    }
+
+    static args = [
+        {
+            name: 'data',
+            description: 'Relative path to signed post file or JWS data',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(PostCosign)
+
+        // read the passphrase before STDIN is used for anything else
+        if (flags.passphraseStdin === true) {
+            if (flags.stdin === true) return ora().fail('Unable to use STDIN for both the passphrase and DATA');
+            setPassphrase(await getStdin());
+        }
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (flags.stdin === true) args.data = await getStdin();
+
+        if (typeof args.data === 'undefined' || args.data === '') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['post:cosign', '-h']);
+        }
+
+        // get signed post, from file if needed
+        const fromFile = flags.raw === false && flags.stdin === false;
+        let content = args.data;
+        if (fromFile) {
+            const cResp = await retrieveFiles([{
+                path: content,
+                relative: true,
+            }])
+            if (cResp.success === false || typeof cResp.files[0] !== 'object') return oraStart.fail(cResp.message);
+            content = cResp.files[0].data;
+        }
+
+        // parse content as a JWS obj, fall back to a bare JWS token
+        let jws;
+        try {
+            jws = JSON.parse(content);
+        } catch (error) {
+            jws = { token: content.trim() };
+        }
+
+        oraStart.succeed('Command ready')
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(flags.kid || '');
+        if (unlock.success === false) return ora().fail(unlock.message);
+
+        // ensure the key is allowed to publish before signing
+        if (flags.force === false) {
+            const gResp = await verifyKeyGrant(flags.kid || '');
+            if (gResp.success === false) return ora().fail(gResp.message + ', use --force to sign anyway');
+        }
+
+        const oraCosign = ora('Co-signing post...').start();
+
+        // get keyPair object
+        const kpResp = await getKeyPair(flags.kid || '');
+        if (kpResp.success === false) return oraCosign.fail(kpResp.message);
+        const keyPair = kpResp.keyPairs[0];
+
+        const resp = await cosignPost(jws, keyPair);
+        if (resp.success === false || typeof resp.data === 'undefined') return oraCosign.fail(resp.message);
+
+        const { hash } = resp.data;
+        oraCosign.succeed(`${resp.message}\nHash: ${hash}\nSigners: ${resp.data.jws.signatures.length}`);
+        const oraSave = ora('Saving JWS...').start();
+
+        const jwsFile = await createFiles([
+            {
+                path: fromFile ? args.data : hash.slice(0, 6) + '.jws',
+                relative: true,
+                data: JSON.stringify(resp.data.jws),
+            },
+        ]);
+
+        if (jwsFile.success) {
+            oraSave.succeed(`${jwsFile.message}\nGenerated post at: ${jwsFile.files[0]}`);
+        } else {
+            oraSave.fail(jwsFile.message);
+        }
+    }
+}
@@ -4,7 +4,9 @@ import { createPost } from '../../functions/post';
 import { getVars } from '../../functions/env';
 import { createFiles, handleRuntypeFail, retrieveFiles } from '../../functions/utility';
 import { PostSkeleton } from '../../types/post';
-import { getIdentity } from '../../functions/identity';
+import { readAttachments, uploadAttachments } from '../../functions/attachment';
+import { getIdentity, unlockIdentity } from '../../functions/identity';
+import { setPassphrase } from '../../functions/keystore';
 
 const getStdin = require('get-stdin');
 const ora = require('ora');
@@ -33,6 +35,7 @@ export default class PostCreate extends Command {
         stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as DATA' }),
         raw: flags.boolean({ char: 'r', default: false, description: 'DATA specified is raw (not a filepath), you need to escape "' }),
         kid: flags.string({ char: 'k', description: 'KID string, can be set in env' }),
+        passphraseStdin: flags.boolean({ default: false, description: 'Use STDIN input as the passphrase of encrypted keys' }),
 
         description: flags.string({ char: 'e', description: 'Post description' }),
         lang: flags.string({ char: 'l', description: 'Post language, can be set in env' }),
@@ -42,6 +45,8 @@ export default class PostCreate extends Command {
         politicalSubdivision: flags.string({ char: 'o', description: 'Post political subdivision' }),
         image: flags.string({ char: 'i', description: 'Post image' }),
         canonicalUrl: flags.string({ char: 'c', description: 'Post canonical url' }),
+        attach: flags.string({ char: 'a', multiple: true, description: 'Relative path to a file to attach, can be used more than once' }),
+        endpoint: flags.string({ char: 'u', description: 'Url of content endpoint to upload attachments to, can be set in env' }),
     }
 
     static args = [
@@ -54,6 +59,12 @@ export default class PostCreate extends Command {
     async run() {
         const { args, flags } = this.parse(PostCreate)
 
+        // read the passphrase before STDIN is used for anything else
+        if (flags.passphraseStdin === true) {
+            if (flags.stdin === true) return ora().fail('Unable to use STDIN for both the passphrase and DATA');
+            setPassphrase(await getStdin());
+        }
+
         if (flags.stdin === true) args.body = await getStdin();
 
         const oraStart = ora('Preparing command...').start();
@@ -78,7 +89,19 @@ export default class PostCreate extends Command {
             return false;
         }
 
+        const attach = flags.attach || [];
+        const endpoint = flags.endpoint || env.CONTENT_ENDPOINT || '';
+        if (attach.length > 0 && endpoint === '') {
+            oraStart.fail('You need to specify a content endpoint to upload attachments to either as a flag with this command or set it in the psqr env');
+            return false;
+        }
+
         oraStart.succeed('Command ready')
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(flags.kid || '');
+        if (unlock.success === false) return ora().fail(unlock.message);
+
         const oraCreate = ora('Creating Post...').start();
 
         // get identity object
@@ -98,6 +121,11 @@ export default class PostCreate extends Command {
             body = bResp.files[0].data;
         }
 
+        // hash files to attach
+        const aResp = readAttachments(attach);
+        if (aResp.success === false || typeof aResp.data === 'undefined') return oraCreate.fail(aResp.message);
+        const attachments = aResp.data;
+
         // assemble post skeleton
         let skel;
         try {
@@ -111,6 +139,7 @@ export default class PostCreate extends Command {
                 politicalSubdivision: flags.politicalSubdivision,
                 image: flags.image,
                 canonicalUrl: flags.canonicalUrl,
+                attachments: attachments.attachments,
             })
         } catch (error) {
             const msg = handleRuntypeFail(error);
@@ -126,6 +155,18 @@ export default class PostCreate extends Command {
         }
 
         oraCreate.succeed(resp.message);
+
+        // upload attachments before the post references them
+        if (attachments.attachments.length > 0) {
+            const oraUpload = ora('Uploading Attachments...').start();
+            const uResp = await uploadAttachments(attachments, {
+                endpoint,
+                selfSigned: env.ALLOW_SELF_SIGNED === 'true',
+            });
+            if (uResp.success === false) return oraUpload.fail(uResp.message + '\n' + uResp.items.map(i => i.message).join('\n'));
+            oraUpload.succeed(uResp.message);
+        }
+
         const oraSave = ora('Saving Post...').start();
 
         const postFile = await createFiles([
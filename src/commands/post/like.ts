@@ -0,0 +1,98 @@
+import { Command, flags, run as runCommand } from '@oclif/command';
+
+import { publishReferencePost } from '../../functions/post';
+import { getVars } from '../../functions/env';
+import { generateLogInput, log } from '../../functions/log';
+import { unlockIdentity } from '../../functions/identity';
+import { setPassphrase } from '../../functions/keystore';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Likes a post, signs the like with specified key, and publishes it to a Broadcaster.
+ *
+ * e.g.
+ * ```typescript
+ * psqr post:like 8f2b6c0e41d5a8e3c2b1f9d7a6e5c4b3a2f1e0d9
+ * ```
+ */
+export default class PostLike extends Command {
+    static description = `Like a post, sign the like with specified key, and publish it to Broadcaster.
+TARGET is the infoHash or canonical url of the post to like, it is found by searching the Indexers.
+The like references the post as psqr:{infoHash} and uses its title and canonical url unless they are specified.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        broadcasters: flags.string({ char: 'b', description: 'Colon (:) separated list of domains of Broadcaster(s) to put to' }),
+        indexers: flags.string({ char: 'n', description: 'Colon (:) separated list of domains of Indexer(s) to find the post with' }),
+        kid: flags.string({ char: 'k', description: 'KID string' }),
+        passphraseStdin: flags.boolean({ default: false, description: 'Use STDIN input as the passphrase of encrypted keys' }),
+        force: flags.boolean({ char: 'f', default: false, description: 'Sign even if the key is not granted publish in its DID doc' }),
+
+        lang: flags.string({ char: 'l', description: 'Like language, can be set in env' }),
+        title: flags.string({ char: 't', description: 'Like title, defaults to the title of the liked post' }),
+        canonicalUrl: flags.string({ char: 'c', description: 'Like canonical url, defaults to the canonical url of the liked post' }),
+    }
+
+    static args = [
+        {
+            name: 'target',
+            description: 'infoHash or canonical url of the post to like',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(PostLike)
+
+        // read the passphrase before STDIN is used for anything else
+        if (flags.passphraseStdin === true) {
+            setPassphrase(await getStdin());
+        }
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.target === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['post:like', '-h']);
+        }
+
+        const env = getVars();
+
+        if (typeof flags.lang === 'undefined' && typeof env.DEFAULT_LANGUAGE === 'undefined') {
+            return oraStart.fail('You need to specify a language either as a flag with this command or set it in the psqr env');
+        }
+
+        oraStart.succeed('Command ready')
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(flags.kid || '');
+        if (unlock.success === false) return ora().fail(unlock.message);
+
+        const oraPub = ora('Publishing Like...').start();
+        const pResp = await publishReferencePost('like', args.target, {
+            body: '',
+            description: '',
+            lang: flags.lang || env.DEFAULT_LANGUAGE || '',
+            title: flags.title || '',
+            image: '',
+            canonicalUrl: flags.canonicalUrl || '',
+        }, {
+            kid: flags.kid || '',
+            broadcaster: flags.broadcasters || '',
+            indexer: flags.indexers || '',
+            selfSigned: env.ALLOW_SELF_SIGNED === 'true',
+            force: flags.force,
+        });
+        if (pResp.success === false) return oraPub.fail(pResp.message);
+        oraPub.succeed(pResp.message + '\n');
+
+        const logInput = generateLogInput(process.argv)
+        logInput.code = pResp.items.map(i => {
+            return { key: i.message, obj: i.data }
+        });
+        log(logInput);
+    }
+}
@@ -0,0 +1,121 @@
+import { Command, flags, run as runCommand } from '@oclif/command';
+
+import { publishReferencePost } from '../../functions/post';
+import { getVars } from '../../functions/env';
+import { retrieveFiles } from '../../functions/utility';
+import { generateLogInput, log } from '../../functions/log';
+import { unlockIdentity } from '../../functions/identity';
+import { setPassphrase } from '../../functions/keystore';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Creates a reply to a post, signs it with specified key, and publishes it to a Broadcaster.
+ *
+ * e.g.
+ * ```typescript
+ * psqr post:reply 8f2b6c0e41d5a8e3c2b1f9d7a6e5c4b3a2f1e0d9 'Great reporting!' --raw
+ * ```
+ */
+export default class PostReply extends Command {
+    static description = `Reply to a post, sign the reply with specified key, and publish it to Broadcaster.
+TARGET is the infoHash or canonical url of the post to reply to, it is found by searching the Indexers.
+The reply references the post as psqr:{infoHash} and uses its canonical url unless --canonicalUrl is specified.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as BODY' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'BODY specified is raw (not a filepath), you need to escape "' }),
+        broadcasters: flags.string({ char: 'b', description: 'Colon (:) separated list of domains of Broadcaster(s) to put to' }),
+        indexers: flags.string({ char: 'n', description: 'Colon (:) separated list of domains of Indexer(s) to find the post with' }),
+        kid: flags.string({ char: 'k', description: 'KID string' }),
+        passphraseStdin: flags.boolean({ default: false, description: 'Use STDIN input as the passphrase of encrypted keys' }),
+        force: flags.boolean({ char: 'f', default: false, description: 'Sign even if the key is not granted publish in its DID doc' }),
+
+        description: flags.string({ char: 'e', description: 'Reply description' }),
+        lang: flags.string({ char: 'l', description: 'Reply language, can be set in env' }),
+        title: flags.string({ char: 't', description: 'Reply title, defaults to Re: and the title of the post' }),
+        image: flags.string({ char: 'i', description: 'Reply image' }),
+        canonicalUrl: flags.string({ char: 'c', description: 'Reply canonical url' }),
+    }
+
+    static args = [
+        {
+            name: 'target',
+            description: 'infoHash or canonical url of the post to reply to',
+        },
+        {
+            name: 'body',
+            description: 'Relative path to body data file or body data',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(PostReply)
+
+        // read the passphrase before STDIN is used for anything else
+        if (flags.passphraseStdin === true) {
+            if (flags.stdin === true) return ora().fail('Unable to use STDIN for both the passphrase and BODY');
+            setPassphrase(await getStdin());
+        }
+
+        if (flags.stdin === true) args.body = await getStdin();
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.target === 'undefined' || typeof args.body === 'undefined' || args.body === '') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['post:reply', '-h']);
+        }
+
+        const env = getVars();
+
+        if (typeof flags.lang === 'undefined' && typeof env.DEFAULT_LANGUAGE === 'undefined') {
+            return oraStart.fail('You need to specify a language either as a flag with this command or set it in the psqr env');
+        }
+
+        // get body data, from file if needed
+        let body = args.body;
+        if (flags.raw === false && flags.stdin === false) {
+            const bResp = await retrieveFiles([{
+                path: body,
+                relative: true,
+            }])
+            if (bResp.success === false || typeof bResp.files[0] !== 'object') return oraStart.fail(bResp.message);
+            body = bResp.files[0].data;
+        }
+
+        oraStart.succeed('Command ready')
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(flags.kid || '');
+        if (unlock.success === false) return ora().fail(unlock.message);
+
+        const oraPub = ora('Publishing Reply...').start();
+        const pResp = await publishReferencePost('reply', args.target, {
+            body,
+            description: flags.description || '',
+            lang: flags.lang || env.DEFAULT_LANGUAGE || '',
+            title: flags.title || '',
+            image: flags.image || '',
+            canonicalUrl: flags.canonicalUrl || '',
+        }, {
+            kid: flags.kid || '',
+            broadcaster: flags.broadcasters || '',
+            indexer: flags.indexers || '',
+            selfSigned: env.ALLOW_SELF_SIGNED === 'true',
+            force: flags.force,
+        });
+        if (pResp.success === false) return oraPub.fail(pResp.message);
+        oraPub.succeed(pResp.message + '\n');
+
+        const logInput = generateLogInput(process.argv)
+        logInput.code = pResp.items.map(i => {
+            return { key: i.message, obj: i.data }
+        });
+        log(logInput);
+    }
+}
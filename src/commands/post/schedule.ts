@@ -0,0 +1,84 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+
+import { schedulePost } from '../../functions/queue';
+import { convertToTimestamp, retrieveFiles } from '../../functions/utility';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Schedules a signed post to be published to Broadcasters at a later time.
+ *
+ * e.g.
+ * ```typescript
+ * psqr post:schedule 8f2b6c.jws --at 2h
+ * ```
+ */
+export default class PostSchedule extends Command {
+    static description = `Schedule a signed post to be published to Broadcasters at a later time.
+DATA is a JWS as created by post:sign or post:cosign.
+--at accepts a date (YYYY-MM-DD or ISO 8601) or a duration from now, ie 2h.
+Scheduled posts are published by queue:run once they are due.
+A post that is already in the queue is only replaced with --force.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as DATA' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'DATA specified is raw (not a filepath), you need to escape "' }),
+        at: flags.string({ char: 'a', description: 'Time to publish the post at' }),
+        broadcasters: flags.string({ char: 'b', description: 'Colon (:) separated list of domains of Broadcaster(s) to put to instead of the defaults' }),
+        force: flags.boolean({ char: 'f', default: false, description: 'Replace the post if it is already in the queue, its results are lost' }),
+    }
+
+    static args = [
+        {
+            name: 'data',
+            description: 'Relative path to signed post content as a JWS',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(PostSchedule)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (flags.stdin === true) args.data = await getStdin();
+
+        if (typeof args.data === 'undefined' || args.data === '' || typeof flags.at === 'undefined') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['post:schedule', '-h']);
+        }
+
+        const publishAt = convertToTimestamp(flags.at, 'future');
+        if (publishAt === false) return oraStart.fail(`Unable to parse time ${flags.at}`);
+        if (publishAt < Date.now()) return oraStart.fail(`Time ${new Date(publishAt).toISOString()} has already passed`);
+
+        // get signed post, from file if needed
+        let data = args.data;
+        if (flags.raw === false && flags.stdin === false) {
+            const dResp = await retrieveFiles([{
+                path: data,
+                relative: true,
+            }])
+            if (dResp.success === false || typeof dResp.files[0] !== 'object') return oraStart.fail(dResp.message);
+            data = dResp.files[0].data;
+        }
+
+        let jws;
+        try {
+            jws = JSON.parse(data);
+        } catch (error) {
+            return oraStart.fail('Signed post is not valid JSON');
+        }
+
+        oraStart.succeed('Command ready')
+        const oraSchedule = ora('Scheduling Post...').start();
+
+        const resp = schedulePost(jws, publishAt, flags.broadcasters || '', flags.force);
+        if (resp.success === false) return oraSchedule.fail(resp.message);
+
+        oraSchedule.succeed(resp.message);
+    }
+}
@@ -3,7 +3,8 @@ import { Command, flags, run as runCommand } from '@oclif/command';
 import { createJWS } from '../../functions/post';
 import { getVars } from '../../functions/env';
 import { createFiles, retrieveFiles } from '../../functions/utility';
-import { getKeyPair } from '../../functions/identity';
+import { getKeyPair, unlockIdentity, verifyKeyGrant } from '../../functions/identity';
+import { setPassphrase } from '../../functions/keystore';
 
 const getStdin = require('get-stdin');
 const ora = require('ora');
@@ -19,6 +20,8 @@ export default class PostSign extends Command {
         stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as DATA' }),
         raw: flags.boolean({ char: 'r', default: false, description: 'DATA specified is raw (not a filepath), you need to escape "' }),
         kid: flags.string({ char: 'k', description: 'KID string' }),
+        passphraseStdin: flags.boolean({ default: false, description: 'Use STDIN input as the passphrase of encrypted keys' }),
+        force: flags.boolean({ char: 'f', default: false, description: 'Sign even if the key is not granted publish in its DID doc' }),
     }
 
     static args = [
@@ -31,6 +34,12 @@ export default class PostSign extends Command {
     async run() {
         const { args, flags } = this.parse(PostSign)
 
+        // read the passphrase before STDIN is used for anything else
+        if (flags.passphraseStdin === true) {
+            if (flags.stdin === true) return ora().fail('Unable to use STDIN for both the passphrase and DATA');
+            setPassphrase(await getStdin());
+        }
+
         const oraStart = ora('Preparing command...').start();
 
         if (flags.stdin === true) args.data = await getStdin();
@@ -54,6 +63,17 @@ export default class PostSign extends Command {
         }
 
         oraStart.succeed('Command ready')
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(flags.kid || '');
+        if (unlock.success === false) return ora().fail(unlock.message);
+
+        // ensure the key is allowed to publish before signing
+        if (flags.force === false) {
+            const gResp = await verifyKeyGrant(flags.kid || '');
+            if (gResp.success === false) return ora().fail(gResp.message + ', use --force to sign anyway');
+        }
+
         const oraCreate = ora('Creating JWS...').start();
 
         // get keyPair object
@@ -0,0 +1,113 @@
+import { Command, flags, run as runCommand } from '@oclif/command';
+import { writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+import { createTorrent, getNetworkSources } from '../../functions/torrent';
+import { readAttachments } from '../../functions/attachment';
+import { handleRuntypeFail, retrieveFiles } from '../../functions/utility';
+import { Post } from '../../types/post';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Creates a BitTorrent metainfo file for a post.
+ *
+ * e.g.
+ * ```typescript
+ * psqr post:torrent post-1620151913000.json
+ * ```
+ */
+export default class PostTorrent extends Command {
+    static description = `Create a BitTorrent metainfo file for a post.
+The torrent distributes the signed info of the post as {infoHash}.json.
+Its trackers and web seeds are taken from the post unless --networks is specified.
+Attachments of the post are read from --attachments, or the directory of the post file, and follow the post info.
+Torrents of posts with attachments have no web seeds.
+The torrent is saved as {torrent infoHash}.torrent next to the post file, or in the current directory.
+The BitTorrent infoHash of the torrent is not the infoHash of the post, both are output.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as DATA' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'DATA specified is raw (not a filepath), you need to escape "' }),
+        networks: flags.string({ char: 'n', description: 'Colon (:) separated list of domains of Network(s) to take trackers and web seeds from' }),
+        attachments: flags.string({ char: 'a', description: 'Relative path to the directory containing the attachments of the post' }),
+    }
+
+    static args = [
+        {
+            name: 'data',
+            description: 'Relative path to post file or JSON post data',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(PostTorrent)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (flags.stdin === true) args.data = await getStdin();
+
+        if (typeof args.data === 'undefined' || args.data === '') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['post:torrent', '-h']);
+        }
+
+        // get post data, from file if needed
+        const fromFile = flags.raw === false && flags.stdin === false;
+        let content = args.data;
+        if (fromFile) {
+            const cResp = await retrieveFiles([{
+                path: content,
+                relative: true,
+            }])
+            if (cResp.success === false || typeof cResp.files[0] !== 'object') return oraStart.fail(cResp.message);
+            content = cResp.files[0].data;
+        }
+
+        let post;
+        try {
+            post = Post.check(JSON.parse(content));
+        } catch (error) {
+            const msg = handleRuntypeFail(error);
+            return oraStart.fail(msg);
+        }
+
+        // read attachment content by name
+        const dir = fromFile ? dirname(`${process.cwd()}/${args.data}`) : process.cwd();
+        const attachDir = typeof flags.attachments === 'string' ? `${process.cwd()}/${flags.attachments}` : dir;
+        const described = post.info.publicSquare.package.attachments || [];
+        const aResp = readAttachments(described.map(a => `${attachDir}/${a.name}`), false);
+        if (aResp.success === false || typeof aResp.data === 'undefined') return oraStart.fail(aResp.message);
+
+        oraStart.succeed('Command ready')
+        const oraCreate = ora('Creating Torrent...').start();
+
+        // replace trackers and web seeds if networks are specified
+        if (typeof flags.networks === 'string') {
+            const sources = await getNetworkSources(flags.networks);
+            if (sources.announce.length === 0) return oraCreate.fail(`Unable to get network configs for ${flags.networks}`);
+            post = { ...post, ...sources };
+        }
+
+        const resp = createTorrent(post, aResp.data.contents);
+        if (resp.success === false || typeof resp.data === 'undefined') return oraCreate.fail(resp.message);
+        oraCreate.succeed(`${resp.message}\nPost infoHash: ${post.infoHash}\nTrackers: ${post.announce.length}\nWeb Seeds: ${post.urlList.length}`);
+
+        const oraSave = ora('Saving Torrent...').start();
+
+        // named by the hash clients look the torrent up by
+        const path = `${dir}/${resp.data.infoHash}.torrent`;
+        try {
+            writeFileSync(path, resp.data.torrent);
+        } catch (error) {
+            const msg = handleRuntypeFail(error);
+            return oraSave.fail(msg);
+        }
+
+        oraSave.succeed(`Successfully created torrent\nGenerated torrent at: ${path}`);
+    }
+}
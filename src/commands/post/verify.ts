@@ -0,0 +1,86 @@
+import { Command, flags, run as runCommand } from '@oclif/command';
+
+import { verifyPost } from '../../functions/post';
+import { retrieveFiles } from '../../functions/utility';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Verifies the signatures and infoHash of a signed post.
+ */
+export default class PostVerify extends Command {
+    static description = `Verify the signatures and infoHash of a signed post.
+DATA can be a JWS as created by post:sign or post:cosign, a bare JWS token, or Post JSON.
+Every signer of a co-signed post is verified.
+Each check is reported separately.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as DATA' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'DATA specified is raw (not a filepath), you need to escape "' }),
+    }
+
+    static args = [
+        {
+            name: 'data',
+            description: 'Relative path to signed post file, JWS token, or JSON post data',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(PostVerify)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (flags.stdin === true) args.data = await getStdin();
+
+        if (typeof args.data === 'undefined' || args.data === '') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['post:verify', '-h']);
+        }
+
+        // get content data, from file if needed
+        let content = args.data;
+        if (flags.raw === false && flags.stdin === false) {
+            const cResp = await retrieveFiles([{
+                path: content,
+                relative: true,
+            }])
+            if (cResp.success === false || typeof cResp.files[0] !== 'object') return oraStart.fail(cResp.message);
+            content = cResp.files[0].data;
+        }
+
+        // parse content as a JWS obj or Post obj, fall back to a bare JWS token
+        let subject;
+        try {
+            subject = JSON.parse(content);
+        } catch (error) {
+            subject = content.trim();
+        }
+        if (typeof subject === 'string') subject = { token: subject };
+
+        oraStart.succeed('Command ready')
+        const oraVerify = ora('Verifying Post...').start();
+
+        const resp = await verifyPost(subject);
+
+        // report each check separately
+        oraVerify.stop();
+        resp.items.forEach(i => {
+            const oraCheck = ora().start();
+            i.success ? oraCheck.succeed(i.message) : oraCheck.fail(i.message);
+        });
+
+        const oraResult = ora().start();
+        if (resp.success) {
+            oraResult.succeed(resp.message);
+        } else {
+            oraResult.fail(resp.message);
+        }
+
+        return resp.success;
+    }
+}
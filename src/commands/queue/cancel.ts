@@ -0,0 +1,45 @@
+import { Command, flags, run as runCommand } from '@oclif/command'
+
+import { cancelScheduledPost } from '../../functions/queue';
+
+const ora = require('ora');
+
+/**
+ * Cancels a pending scheduled post.
+ */
+export default class QueueCancel extends Command {
+    static description = `Cancel a pending scheduled post.
+The post is kept in the queue with the cancelled status.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+    }
+
+    static args = [
+        {
+            name: 'hash',
+            description: 'infoHash of the scheduled post or a unique prefix of it',
+        },
+    ]
+
+    async run() {
+        const { args } = this.parse(QueueCancel)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (typeof args.hash === 'undefined' || args.hash === '') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['queue:cancel', '-h']);
+        }
+
+        oraStart.succeed('Command ready')
+        const oraCancel = ora('Cancelling Scheduled Post...').start();
+
+        const resp = cancelScheduledPost(args.hash);
+        if (resp.success === false) return oraCancel.fail(resp.message);
+
+        oraCancel.succeed(resp.message);
+    }
+}
@@ -0,0 +1,48 @@
+import { Command, flags } from '@oclif/command'
+import { CliUx } from '@oclif/core'
+
+import { listQueueItems } from '../../functions/queue';
+
+const ora = require('ora');
+
+/**
+ * Lists scheduled posts.
+ */
+export default class QueueList extends Command {
+    static description = `List scheduled posts.
+Only pending posts are listed unless --all is used.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        all: flags.boolean({ char: 'a', default: false, description: 'List posts of every status' }),
+        json: flags.boolean({ char: 'j', default: false, description: 'Output the posts as JSON' }),
+    }
+
+    async run() {
+        const { flags } = this.parse(QueueList)
+
+        const items = listQueueItems(flags.all ? [] : ['pending']);
+        if (flags.json) return console.log(JSON.stringify(items, null, 4));
+        if (items.length === 0) return ora().fail('No scheduled posts found');
+
+        const rows = items.map(i => {
+            const succeeded = i.results.filter(r => r.success).length;
+            return {
+                hash: i.hash,
+                status: i.status,
+                publishAt: new Date(i.publishAt).toISOString(),
+                broadcasters: i.broadcaster || 'default',
+                results: i.results.length === 0 ? '' : `${succeeded}/${i.results.length}`,
+            }
+        });
+
+        CliUx.ux.table(rows, {
+            hash: { header: 'Hash' },
+            status: { header: 'Status' },
+            publishAt: { header: 'Publish At' },
+            broadcasters: { header: 'Broadcasters' },
+            results: { header: 'Published To' },
+        });
+    }
+}
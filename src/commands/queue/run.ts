@@ -0,0 +1,53 @@
+import { Command, flags } from '@oclif/command'
+
+import { getVars } from '../../functions/env';
+import { queueLgr, runQueue } from '../../functions/queue';
+import { generateLogInput, log } from '../../functions/log';
+
+const ora = require('ora');
+
+/**
+ * Publishes scheduled posts that are due.
+ * Intended to be run periodically, ie from cron.
+ */
+export default class QueueRun extends Command {
+    static description = `Publish scheduled posts that are due.
+The status and broadcaster results of each post are kept in the queue.
+Failed posts are only published again with --retry,
+partially published posts are then only sent to the broadcasters that failed.
+Intended to be run periodically, ie from cron, and exits with code 1 if any post fails.
+Runs that overlap are skipped while another run is publishing.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        retry: flags.boolean({ char: 'r', default: false, description: 'Publish failed and partially published posts again' }),
+        quiet: flags.boolean({ char: 'q', default: false, description: 'Only log to the queue log file' }),
+    }
+
+    async run() {
+        const { flags } = this.parse(QueueRun)
+        const env = getVars();
+
+        const oraRun = ora({ text: 'Publishing Scheduled Posts...', isSilent: flags.quiet }).start();
+
+        const resp = await runQueue({
+            selfSigned: env.ALLOW_SELF_SIGNED === 'true',
+            retry: flags.retry,
+        }, queueLgr);
+
+        if (resp.success === false) {
+            oraRun.fail(resp.message);
+            process.exitCode = 1;
+        } else {
+            oraRun.succeed(resp.message);
+        }
+        if (flags.quiet || resp.items.length === 0) return;
+
+        const logInput = generateLogInput(process.argv)
+        logInput.code = resp.items.map(i => {
+            return { key: i.data.hash, obj: { status: i.data.status, results: i.data.results } }
+        });
+        log(logInput);
+    }
+}
@@ -0,0 +1,142 @@
+import { Command, flags, run as runCommand } from '@oclif/command';
+
+import { createCredential } from '../../functions/vc';
+import { getVars } from '../../functions/env';
+import { convertToTimestamp, createFiles, retrieveFiles } from '../../functions/utility';
+import { getKeyPair, parseBareDid, unlockIdentity } from '../../functions/identity';
+import { setPassphrase } from '../../functions/keystore';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Issues a W3C Verifiable Credential signed as a JWT with specified key.
+ *
+ * e.g.
+ * ```typescript
+ * psqr vc:issue '{"memberOf":"Example News"}' \
+ *      --raw \
+ *      --subject did:psqr:example.com/alice \
+ *      --type NewsroomMembershipCredential \
+ *      --expires 365d
+ * ```
+ */
+export default class VcIssue extends Command {
+    static description = `Issue a W3C Verifiable Credential signed as a JWT with specified key.
+CLAIMS is a JSON object of claims about the subject, it becomes the credentialSubject.
+The DID of the key is the issuer, use vc:verify to verify the credential.
+--expires accepts a date (YYYY-MM-DD or ISO 8601) or a duration from now, ie 365d.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as CLAIMS' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'CLAIMS specified is raw (not a filepath), you need to escape "' }),
+        kid: flags.string({ char: 'k', description: 'KID string' }),
+        passphraseStdin: flags.boolean({ default: false, description: 'Use STDIN input as the passphrase of encrypted keys' }),
+        subject: flags.string({ char: 'u', description: 'DID of the subject of the credential' }),
+        type: flags.string({ char: 't', description: 'Comma (,) separated list of types to add to VerifiableCredential' }),
+        expires: flags.string({ char: 'e', description: 'Date or duration from now when the credential expires' }),
+        id: flags.string({ char: 'i', description: 'URI identifying the credential' }),
+    }
+
+    static args = [
+        {
+            name: 'claims',
+            description: 'Relative path to file with JSON claims',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(VcIssue)
+
+        // read the passphrase before STDIN is used for anything else
+        if (flags.passphraseStdin === true) {
+            if (flags.stdin === true) return ora().fail('Unable to use STDIN for both the passphrase and CLAIMS');
+            setPassphrase(await getStdin());
+        }
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (flags.stdin === true) args.claims = await getStdin();
+
+        if (typeof args.claims === 'undefined' || args.claims === '') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['vc:issue', '-h']);
+        }
+
+        const env = getVars();
+
+        if (typeof flags.kid === 'undefined' && (typeof env.DEFAULT_DID === 'undefined' || typeof env.DEFAULT_KEY === 'undefined')) {
+            return oraStart.fail('You need to specify a KID either as a flag with this command or set it in the psqr env');
+        }
+
+        if (typeof flags.subject === 'string' && parseBareDid(flags.subject) === false) {
+            return oraStart.fail('Invalid subject DID specified, expected format: did:(psqr|web):{hostname}(/|:){path}');
+        }
+
+        let expires;
+        if (typeof flags.expires === 'string') {
+            expires = convertToTimestamp(flags.expires, 'future');
+            if (expires === false) return oraStart.fail(`Unable to parse expires ${flags.expires}`);
+        }
+
+        // get claims data, from file if needed
+        let content = args.claims;
+        if (flags.raw === false && flags.stdin === false) {
+            const cResp = await retrieveFiles([{
+                path: content,
+                relative: true,
+            }])
+            if (cResp.success === false || typeof cResp.files[0] !== 'object') return oraStart.fail(cResp.message);
+            content = cResp.files[0].data;
+        }
+
+        let claims;
+        try {
+            claims = JSON.parse(content);
+        } catch (error: any) {
+            return oraStart.fail('Unable to parse claims because: ' + error.message);
+        }
+        if (typeof claims !== 'object' || claims === null || Array.isArray(claims)) return oraStart.fail('Claims must be a JSON object');
+
+        oraStart.succeed('Command ready')
+
+        // request passphrase if the keys are encrypted
+        const unlock = await unlockIdentity(flags.kid || '');
+        if (unlock.success === false) return ora().fail(unlock.message);
+
+        const oraIssue = ora('Issuing credential...').start();
+
+        // get keyPair object
+        const kpResp = await getKeyPair(flags.kid || '');
+        if (kpResp.success === false) return oraIssue.fail(kpResp.message);
+        const keyPair = kpResp.keyPairs[0];
+
+        const resp = await createCredential(claims, keyPair, {
+            subject: flags.subject,
+            types: typeof flags.type === 'string' ? flags.type.replace(/\s/g, '').split(',') : [],
+            expires,
+            id: flags.id,
+        });
+        if (resp.success === false) return oraIssue.fail(resp.message);
+
+        oraIssue.succeed(resp.message);
+        const oraSave = ora('Saving credential...').start();
+
+        const jwtFile = await createFiles([
+            {
+                path: keyPair.kid.replace(/[:/#]/g, '-') + '-' + Date.now() + '.jwt',
+                relative: true,
+                data: resp.data.jwt,
+            },
+        ]);
+
+        if (jwtFile.success) {
+            oraSave.succeed(`${jwtFile.message}\nGenerated credential at: ${jwtFile.files[0]}`);
+        } else {
+            oraSave.fail(jwtFile.message);
+        }
+    }
+}
@@ -0,0 +1,89 @@
+import { Command, flags, run as runCommand } from '@oclif/command';
+
+import { verifyCredential } from '../../functions/vc';
+import { log, generateLogInput } from '../../functions/log'
+import { retrieveFiles } from '../../functions/utility';
+
+const getStdin = require('get-stdin');
+const ora = require('ora');
+
+/**
+ * Verifies a W3C Verifiable Credential signed as a JWT.
+ */
+export default class VcVerify extends Command {
+    static description = `Verify a W3C Verifiable Credential signed as a JWT.
+The issuer DID is resolved to check the signature, expiry, and revocation status of the signing key.
+Each check is reported separately and the credential is output if the signature is valid.
+`
+
+    static flags = {
+        help: flags.help({ char: 'h' }),
+        stdin: flags.boolean({ char: 's', default: false, description: 'Use STDIN input as DATA' }),
+        raw: flags.boolean({ char: 'r', default: false, description: 'DATA specified is a raw JWT (not a filepath)' }),
+    }
+
+    static args = [
+        {
+            name: 'data',
+            description: 'Relative path to credential file or JWT',
+        },
+    ]
+
+    async run() {
+        const { args, flags } = this.parse(VcVerify)
+
+        const oraStart = ora('Preparing command...').start();
+
+        if (flags.stdin === true) args.data = await getStdin();
+
+        if (typeof args.data === 'undefined' || args.data === '') {
+            // if you want to run another command it must be returned like so
+            oraStart.fail('Insufficient arguments provided\n')
+            return runCommand(['vc:verify', '-h']);
+        }
+
+        // get JWT, from file if needed
+        let jwt = args.data;
+        if (flags.raw === false && flags.stdin === false) {
+            const cResp = await retrieveFiles([{
+                path: jwt,
+                relative: true,
+            }])
+            if (cResp.success === false || typeof cResp.files[0] !== 'object') return oraStart.fail(cResp.message);
+            jwt = cResp.files[0].data;
+        }
+
+        oraStart.succeed('Command ready')
+        const oraVerify = ora('Verifying credential...').start();
+
+        const resp = await verifyCredential(jwt.trim());
+
+        // report each check separately
+        oraVerify.stop();
+        resp.items.forEach(i => {
+            const oraCheck = ora().start();
+            i.success ? oraCheck.succeed(i.message) : oraCheck.fail(i.message);
+        });
+
+        const oraResult = ora().start();
+        if (resp.success) {
+            oraResult.succeed(resp.message);
+        } else {
+            oraResult.fail(resp.message);
+        }
+
+        // output the credential once its signature is verified
+        const signed = resp.items.find(i => i.success && typeof i.data === 'object' && typeof i.data.vc === 'object');
+        if (typeof signed !== 'undefined') {
+            const logInput = generateLogInput(process.argv);
+            logInput.title = 'Verifiable Credential';
+            logInput.code = [{
+                key: 'Credential',
+                obj: signed.data.vc,
+            }];
+            log(logInput);
+        }
+
+        return resp.success;
+    }
+}
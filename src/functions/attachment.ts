@@ -0,0 +1,146 @@
+import { readFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { createHash } from 'crypto';
+
+import { Static } from 'runtypes';
+import axios from 'axios';
+
+import { handleRuntypeFail } from './utility';
+import { Attachment } from '../types/post';
+import { DataResponse, ListResponse } from '../types/interfaces';
+
+const https = require('https');
+
+/** Media types of common attachment extensions */
+const MEDIA_TYPES: { [ext: string]: string } = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.pdf': 'application/pdf',
+    '.mp3': 'audio/mpeg',
+    '.m4a': 'audio/mp4',
+    '.ogg': 'audio/ogg',
+    '.wav': 'audio/wav',
+    '.mp4': 'video/mp4',
+};
+
+/** Attachment descriptions and their content in the same order */
+export interface AttachmentData {
+    attachments: Static<typeof Attachment>[];
+    contents: Buffer[];
+}
+
+export interface AttachmentResponse extends DataResponse {
+    data?: AttachmentData;
+}
+
+/** Content Endpoint Config */
+export interface UploadConfig {
+    endpoint: string;
+    selfSigned?: boolean;
+}
+
+/**
+ * Read files to attach to a post and describe them.
+ * Each attachment is named by its file name and hashed with sha256.
+ *
+ * @param paths paths of files to attach
+ * @param relative whether the paths are relative to the current directory
+ * @returns Success or Failure Message Response including the attachments and their content
+ */
+function readAttachments(paths: string[], relative = true): AttachmentResponse {
+    const attachments: Static<typeof Attachment>[] = [];
+    const contents: Buffer[] = [];
+
+    try {
+        for (let i = 0; i < paths.length; i++) {
+            const path = relative ? process.cwd() + '/' + paths[i] : paths[i];
+            const name = basename(path);
+            if (attachments.some(a => a.name === name)) return { success: false, message: `Attachment named ${name} is specified more than once` };
+
+            const content = readFileSync(path);
+            attachments.push(Attachment.check({
+                name,
+                type: MEDIA_TYPES[extname(name).toLowerCase()] || 'application/octet-stream',
+                length: content.length,
+                hash: createHash('sha256').update(content).digest('hex'),
+            }));
+            contents.push(content);
+        }
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+
+    return {
+        success: true,
+        message: `Successfully read ${attachments.length} attachments`,
+        data: { attachments, contents },
+    }
+}
+
+/**
+ * Ensure attachment content matches the digests of the attachments.
+ *
+ * @param attachments attachment descriptions from the post
+ * @param contents content of each attachment in the same order
+ * @returns Success or Failure Message Response
+ */
+function checkAttachments(attachments: Static<typeof Attachment>[], contents: Buffer[]): DataResponse {
+    if (attachments.length !== contents.length) return { success: false, message: `Expected ${attachments.length} attachments but got ${contents.length}` };
+
+    for (let i = 0; i < attachments.length; i++) {
+        const hash = createHash('sha256').update(contents[i]).digest('hex');
+        if (hash !== attachments[i].hash) return { success: false, message: `Attachment ${attachments[i].name} does not match its hash ${attachments[i].hash}` };
+    }
+
+    return { success: true, message: `All ${attachments.length} attachments match their hashes` };
+}
+
+/**
+ * Upload attachments to a content endpoint.
+ * Each attachment is PUT to {endpoint}/{hash} with its media type.
+ *
+ * @param data attachments and their content
+ * @param config content endpoint url and whether self-signed certs are allowed
+ * @returns Success or Failure Message Response including the outcome of each upload
+ */
+async function uploadAttachments(data: AttachmentData, config: UploadConfig): Promise<ListResponse> {
+    const endpoint = config.endpoint.replace(/\/+$/, '');
+    const httpsAgent = config.selfSigned === true ? new https.Agent({ rejectUnauthorized: false }) : undefined;
+
+    const uploads = data.attachments.map((a, i) => axios({
+        url: `${endpoint}/${a.hash}`,
+        method: 'PUT',
+        headers: { 'Content-Type': a.type },
+        data: data.contents[i],
+        httpsAgent,
+        maxBodyLength: Infinity,
+    }));
+
+    return Promise.allSettled(uploads).then(value => {
+        const items: DataResponse[] = value.map((v, i) => {
+            const { name } = data.attachments[i];
+            if (v.status === 'rejected') {
+                return {
+                    success: false,
+                    message: `Unable to upload ${name} because ${v.reason.response?.status || 'Error'}: ${v.reason.message}`,
+                    data: name,
+                }
+            }
+
+            return { success: true, message: `Uploaded ${name}`, data: `${endpoint}/${data.attachments[i].hash}` };
+        });
+
+        const succeeded = items.filter(i => i.success);
+        const ratio = `${succeeded.length}/${items.length}`;
+        if (succeeded.length < items.length) return { success: false, message: `Failed to upload attachments to ${endpoint}. ${ratio} were successful.`, items };
+
+        return { success: true, message: `Successfully uploaded attachments to ${endpoint}. ${ratio} were successful.`, items };
+    });
+}
+
+export { readAttachments, checkAttachments, uploadAttachments }
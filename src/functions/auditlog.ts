@@ -0,0 +1,107 @@
+import { readFileSync, readdirSync, existsSync, mkdirSync, appendFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { Static } from 'runtypes';
+
+import { parseBareDid } from './identity';
+import { handleRuntypeFail } from './utility';
+import { SigningRecord } from '../types/identity';
+import { DataResponse } from '../types/interfaces';
+
+const homedir = require('os').homedir();
+
+const AUDIT_PATH = `${homedir}/.config/psqr/audit`;
+
+/** Filters for querying signing records, timestamps are in ms */
+export interface AuditLogQuery {
+    kid?: string;
+    hash?: string;
+    since?: number;
+    until?: number;
+}
+
+/**
+ * Get the local path of the audit log of a DID.
+ *
+ * @param did bare did string
+ * @returns path to audit log file
+ */
+function getAuditLogPath(did: string): string {
+    return `${AUDIT_PATH}/${encodeURIComponent(did)}.jsonl`;
+}
+
+/**
+ * Append a record of a signature to the audit log of the identity of the key.
+ * The hash is the sha256 of the signed content in hex.
+ * The command is the psqr command that is running, if any.
+ *
+ * @param kid did with trailing key name of the signing key
+ * @param operation kind of signature, ie post or propagate
+ * @param content content that was signed
+ * @param infoHash infoHash of the post that was signed
+ * @returns Success or Failure Message Response including the record
+ */
+function recordSignature(kid: string, operation: string, content: string, infoHash = ''): DataResponse {
+    const bdid = parseBareDid(kid);
+    if (bdid === false) return { success: false, message: `Unable to parse bare did from kid ${kid}` };
+
+    try {
+        const record = SigningRecord.check({
+            kid,
+            operation,
+            hash: createHash('sha256').update(content).digest('hex'),
+            infoHash: infoHash === '' ? undefined : infoHash,
+            command: process.argv[2] || '',
+            timestamp: Date.now(),
+        });
+
+        if (existsSync(AUDIT_PATH) === false) mkdirSync(AUDIT_PATH, { recursive: true });
+        appendFileSync(getAuditLogPath(bdid), JSON.stringify(record) + '\n');
+
+        return { success: true, message: `Recorded ${operation} signature by ${kid}`, data: record };
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+}
+
+/**
+ * Query the signing records of one or all identities, oldest first.
+ * The hash filter matches both the content hash and the infoHash.
+ *
+ * @param did bare did string, empty for all audit logs
+ * @param query kid, hash, and time range to filter by
+ * @returns list of matching records
+ */
+function queryAuditLog(did = '', query: AuditLogQuery = {}): Static<typeof SigningRecord>[] {
+    if (existsSync(AUDIT_PATH) === false) return [];
+
+    const paths = did === '' ?
+        readdirSync(AUDIT_PATH).filter(f => f.endsWith('.jsonl')).map(f => `${AUDIT_PATH}/${f}`) :
+        [getAuditLogPath(did)];
+
+    const records: Static<typeof SigningRecord>[] = [];
+    paths.forEach(path => {
+        if (existsSync(path) === false) return;
+
+        readFileSync(path, 'utf-8').split('\n').forEach(line => {
+            if (line.trim() === '') return;
+
+            try {
+                records.push(SigningRecord.check(JSON.parse(line)));
+            } catch (error: any) {
+                // skip corrupted lines
+            }
+        });
+    });
+
+    return records.filter(r => {
+        if (typeof query.kid === 'string' && r.kid !== query.kid) return false;
+        if (typeof query.hash === 'string' && r.hash !== query.hash && r.infoHash !== query.hash) return false;
+        if (typeof query.since === 'number' && r.timestamp < query.since) return false;
+        if (typeof query.until === 'number' && r.timestamp > query.until) return false;
+
+        return true;
+    }).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export { recordSignature, queryAuditLog }
@@ -0,0 +1,181 @@
+// @ts-ignore: rmSync is available despite warnings
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, rmSync } from 'fs';
+import { Static } from 'runtypes';
+
+import { getVars } from './env';
+import { handleRuntypeFail } from './utility';
+import { Did, DidCacheEntry } from '../types/identity';
+import { DataResponse } from '../types/interfaces';
+
+const parseDuration = require('parse-duration');
+const homedir = require('os').homedir();
+
+const CACHE_PATH = `${homedir}/.config/psqr/cache/dids`;
+
+/** Default time a cached DID doc is considered fresh */
+const DEFAULT_TTL = '1d';
+
+/**
+ * Get the local path of a cached DID doc.
+ *
+ * @param did bare did string
+ * @returns path to cache file
+ */
+function getCachePath(did: string): string {
+    return `${CACHE_PATH}/${encodeURIComponent(did)}.json`;
+}
+
+/**
+ * Get the configured time to live of cached DID docs in ms.
+ * This is set with the DID_CACHE_TTL var, ie 12h or 7d.
+ *
+ * @returns ttl in ms
+ */
+function getCacheTtl(): number {
+    const ttl = getVars(['DID_CACHE_TTL']).DID_CACHE_TTL || DEFAULT_TTL;
+
+    return parseDuration(ttl) ?? parseDuration(DEFAULT_TTL);
+}
+
+/**
+ * Check whether DIDs should be resolved from the cache only.
+ * This is set with the DID_OFFLINE var.
+ *
+ * @returns boolean based on offline mode
+ */
+function isOffline(): boolean {
+    return getVars(['DID_OFFLINE']).DID_OFFLINE === 'true';
+}
+
+/**
+ * Check whether a cache entry can be used without resolving the DID again.
+ * Pinned entries never expire.
+ *
+ * @param entry cached DID doc
+ * @returns boolean based on freshness
+ */
+function isCacheFresh(entry: Static<typeof DidCacheEntry>): boolean {
+    return entry.pinned || Date.now() - entry.fetched < getCacheTtl();
+}
+
+/**
+ * Get a cached DID doc.
+ *
+ * @param did bare did string
+ * @returns cache entry or false if not cached
+ */
+function getCachedDid(did: string): Static<typeof DidCacheEntry> | false {
+    const path = getCachePath(did);
+    if (existsSync(path) === false) return false;
+
+    try {
+        return DidCacheEntry.check(JSON.parse(readFileSync(path, 'utf-8')));
+    } catch (error: any) {
+        return false;
+    }
+}
+
+/**
+ * Store a resolved DID doc in the cache.
+ * The pinned state of a preexisting entry is kept unless specified.
+ *
+ * @param didDoc resolved DID doc
+ * @param pinned should the entry be pinned
+ * @param fetched timestamp in ms of when the DID doc was resolved
+ * @returns Success or Failure Message Response including the cache entry
+ */
+function setCachedDid(didDoc: Static<typeof Did>, pinned: boolean | null = null, fetched = Date.now()): DataResponse {
+    try {
+        const doc = Did.check(didDoc);
+        const current = getCachedDid(doc.id);
+
+        const entry = DidCacheEntry.check({
+            did: doc.id,
+            didDoc: doc,
+            fetched,
+            pinned: pinned === null ? current !== false && current.pinned : pinned,
+        });
+
+        if (existsSync(CACHE_PATH) === false) mkdirSync(CACHE_PATH, { recursive: true });
+        writeFileSync(getCachePath(entry.did), JSON.stringify(entry));
+
+        return { success: true, message: `Cached DID doc for ${entry.did}`, data: entry };
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+}
+
+/**
+ * Pin or unpin a cached DID doc.
+ * Pinned DID docs are never refreshed automatically.
+ *
+ * @param did bare did string
+ * @param pinned should the entry be pinned
+ * @returns Success or Failure Message Response including the cache entry
+ */
+function pinCachedDid(did: string, pinned = true): DataResponse {
+    const entry = getCachedDid(did);
+    if (entry === false) return { success: false, message: `No cached DID doc for ${did}` };
+
+    entry.pinned = pinned;
+    writeFileSync(getCachePath(did), JSON.stringify(entry));
+
+    return { success: true, message: `${pinned ? 'Pinned' : 'Unpinned'} cached DID doc for ${did}`, data: entry };
+}
+
+/**
+ * List all cached DID docs.
+ *
+ * @returns list of cache entries
+ */
+function listCachedDids(): Static<typeof DidCacheEntry>[] {
+    if (existsSync(CACHE_PATH) === false) return [];
+
+    const entries: Static<typeof DidCacheEntry>[] = [];
+    readdirSync(CACHE_PATH).forEach(f => {
+        const entry = getCachedDid(decodeURIComponent(f.replace(/\.json$/, '')));
+        if (entry !== false) entries.push(entry);
+    });
+
+    return entries;
+}
+
+/**
+ * Remove a DID doc from the cache.
+ *
+ * @param did bare did string
+ * @returns Success or Failure Message Response
+ */
+function removeCachedDid(did: string): DataResponse {
+    const path = getCachePath(did);
+    if (existsSync(path) === false) return { success: false, message: `No cached DID doc for ${did}` };
+
+    rmSync(path);
+
+    return { success: true, message: `Removed cached DID doc for ${did}` };
+}
+
+/**
+ * Remove all expired DID docs from the cache.
+ * Pinned entries are kept.
+ *
+ * @param all remove every entry that isn't pinned, even if it is fresh
+ * @returns Success or Failure Message Response including list of removed dids
+ */
+function pruneCachedDids(all = false): DataResponse {
+    const removed: string[] = [];
+    const entries = listCachedDids();
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (entry.pinned || (all === false && isCacheFresh(entry))) continue;
+
+        const rResp = removeCachedDid(entry.did);
+        if (rResp.success === false) return rResp;
+        removed.push(entry.did);
+    }
+
+    return { success: true, message: `Removed ${removed.length} cached DID docs`, data: removed };
+}
+
+export { isOffline, isCacheFresh, getCachedDid, setCachedDid, pinCachedDid, listCachedDids, removeCachedDid, pruneCachedDids }
@@ -1,4 +1,4 @@
-import { writeFileSync, existsSync, mkdirSync, readdirSync, appendFileSync } from 'fs';
+import { writeFileSync, existsSync, mkdirSync, readdirSync, readFileSync, appendFileSync } from 'fs';
 
 import { Static } from 'runtypes';
 import Sitemapper, { SitemapperOptions } from '@public-square/sitemapper';
@@ -6,7 +6,7 @@ import Sitemapper, { SitemapperOptions } from '@public-square/sitemapper';
 import { setVars, getVars } from './env';
 import { DataResponse, ListResponse, ProxyConfig } from '../types/interfaces';
 import { RSS, Sitemap, Twitter, Webhose } from '../types/crawl';
-import { handleRuntypeFail, retrieveFiles, deleteFiles, FileConfig, FileResponse, createFiles, generateLogger, retrieveRegFiles, getRedirectUrl, convertSinceToTimestamp, concurrentPromises } from './utility';
+import { handleRuntypeFail, retrieveFiles, deleteFiles, FileConfig, FileResponse, createFiles, generateLogger, retrieveRegFiles, getRedirectUrl, convertToTimestamp, concurrentPromises } from './utility';
 import { Identity } from '../types/identity';
 import { Post, PostSkeleton } from '../types/post';
 import { createJWS, createPost, createUrlPost } from './post';
@@ -156,6 +156,32 @@ async function getCrawlConfig(type: CrawlType, dids: string | boolean = false):
     }
 }
 
+/**
+ * List all crawl configs stored for a DID, regardless of defaults.
+ *
+ * @param did crawl did
+ * @returns array containing configs, empty if none
+ */
+function listCrawlConfigs(did: string): CrawlConfig[] {
+    const bdid = parseBareDid(did);
+    if (bdid === false) return [];
+
+    const PATH = crawlPath(bdid);
+    const configs: CrawlConfig[] = [];
+    crawlTypes.forEach(type => {
+        const path = `${PATH}/config.${type}.json`;
+        if (existsSync(path) === false) return;
+
+        try {
+            configs.push(JSON.parse(readFileSync(path, 'utf-8')));
+        } catch (error: any) {
+            // skip unreadable configs
+        }
+    });
+
+    return configs;
+}
+
 /**
  * Assemble all Crawler Configurations for those specified.
  * If no feeds are specified, defaults will be used,
@@ -1526,9 +1552,13 @@ async function getSitemapPosts(config: Static<typeof Sitemap>, identity: Static<
 
     // if lastmod is present and non-zero, use it
     if (config.since !== '' && config.since !== '0') {
-        const lastmod = convertSinceToTimestamp(config.since);
-        lgr(`Getting urls that have a minimum lastmod value of ${lastmod}`);
-        sitemapOptions.lastmod = lastmod;
+        const lastmod = convertToTimestamp(config.since, 'past');
+        if (lastmod === false) {
+            lgr(`Unable to parse since value ${config.since}, getting all urls`);
+        } else {
+            lgr(`Getting urls that have a minimum lastmod value of ${lastmod}`);
+            sitemapOptions.lastmod = lastmod;
+        }
     }
     const crawlMaps = new Sitemapper(sitemapOptions);
 
@@ -2097,4 +2127,4 @@ async function getCrawlHistory(did: string, reverse = false): Promise<Map<string
     return history;
 }
 
-export { getCrawlConfig, assembleCrawlConfigs, removeCrawl, removeCrawledPosts, signCrawledPosts, setDefaultCrawl, getDefaultCrawl, writeRSSCrawl, writeTwitterCrawl, writeWebhoseCrawl, writeSitemapCrawl, crawlFeeds, crawlPath }
+export { getCrawlConfig, listCrawlConfigs, assembleCrawlConfigs, removeCrawl, removeCrawledPosts, signCrawledPosts, setDefaultCrawl, getDefaultCrawl, writeRSSCrawl, writeTwitterCrawl, writeWebhoseCrawl, writeSitemapCrawl, crawlFeeds, crawlPath }
@@ -0,0 +1,227 @@
+import { DIDResolutionResult, DIDResolver, ParsedDID } from 'did-resolver';
+import { base64url } from 'jose';
+import { Static } from 'runtypes';
+
+import { Did, PublicInfo, PublicKey } from '../types/identity';
+import { handleRuntypeFail } from './utility';
+
+/** base58btc alphabet used by multibase 'z' values */
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/** Multicodec varint prefixes and curve params of supported key types */
+const KEY_CODECS = [
+    {
+        alg: 'EdDSA',
+        kty: 'OKP',
+        crv: 'Ed25519',
+        prefix: [0xED, 0x01],
+        size: 32,
+    },
+    {
+        alg: 'ES256',
+        kty: 'EC',
+        crv: 'P-256',
+        prefix: [0x80, 0x24],
+        size: 32,
+        p: BigInt('0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff'),
+        b: BigInt('0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b'),
+    },
+    {
+        alg: 'ES384',
+        kty: 'EC',
+        crv: 'P-384',
+        prefix: [0x81, 0x24],
+        size: 48,
+        p: BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffeffffffff0000000000000000ffffffff'),
+        b: BigInt('0xb3312fa7e23ee7e4988e056be3f82d19181d9c6efe8141120314088f5013875ac656398d8a2ed19d2a85c8edd3ec2aef'),
+    },
+];
+
+/**
+ * Create a did:key identifier from a public key.
+ *
+ * @param jwk Public Key represented as a JWK object, kid is not required
+ * @returns did:key string
+ */
+function encodeDidKey(jwk: { crv?: string; x?: string; y?: string }): string {
+    const codec = KEY_CODECS.find(c => c.crv === jwk.crv);
+    if (typeof codec === 'undefined' || typeof jwk.x !== 'string') throw new Error(`Unsupported key curve ${jwk.crv} for did:key`);
+
+    let keyBytes = Buffer.from(base64url.decode(jwk.x));
+    if (codec.kty === 'EC') {
+        // compress EC point, prefix marks if y is even or odd
+        if (typeof jwk.y !== 'string') throw new Error('EC keys require a y coordinate');
+        const y = base64url.decode(jwk.y);
+        keyBytes = Buffer.concat([Buffer.from([y[y.length - 1] % 2 === 0 ? 0x02 : 0x03]), keyBytes]);
+    }
+
+    return 'did:key:z' + encodeBase58(Buffer.concat([Buffer.from(codec.prefix), keyBytes]));
+}
+
+/**
+ * Extract the public key from a did:key identifier.
+ *
+ * @param did did:key string, any key name is ignored
+ * @returns Public Key represented as a JWK object
+ */
+function decodeDidKey(did: string): Static<typeof PublicKey> {
+    const id = did.split('#')[0].replace(/^did:key:/, '');
+    if (id.startsWith('z') === false) throw new Error('did:key identifiers must be base58btc multibase values');
+
+    const bytes = decodeBase58(id.slice(1));
+    const codec = KEY_CODECS.find(c => c.prefix.every((b, i) => bytes[i] === b));
+    if (typeof codec === 'undefined') throw new Error('Unsupported multicodec key type for did:key');
+    const keyBytes = bytes.slice(codec.prefix.length);
+
+    const jwk: { [key: string]: string } = {
+        crv: codec.crv,
+        alg: codec.alg,
+        kty: codec.kty,
+        kid: `did:key:${id}#${id}`,
+    };
+
+    if (codec.kty === 'OKP') {
+        if (keyBytes.length !== codec.size) throw new Error('Invalid Ed25519 key length');
+        jwk.x = base64url.encode(keyBytes);
+    } else {
+        if (keyBytes.length !== codec.size + 1 || typeof codec.p === 'undefined' || typeof codec.b === 'undefined') {
+            throw new Error(`Invalid ${codec.crv} key length`);
+        }
+
+        // decompress EC point, y^2 = x^3 - 3x + b mod p
+        const x = BigInt('0x' + keyBytes.slice(1).toString('hex'));
+        const p = codec.p;
+        const ySquared = (modPow(x, BigInt(3), p) - (BigInt(3) * x) + codec.b) % p;
+        let y = modPow((ySquared + p) % p, (p + BigInt(1)) / BigInt(4), p);
+        if (Number(y % BigInt(2)) !== keyBytes[0] % 2) y = p - y;
+
+        jwk.x = base64url.encode(keyBytes.slice(1));
+        jwk.y = base64url.encode(Buffer.from(y.toString(16).padStart(codec.size * 2, '0'), 'hex'));
+    }
+
+    return PublicKey.check(jwk);
+}
+
+/**
+ * Create a DID PSQR doc for a did:key identifier.
+ * The only key is the one the identifier is derived from
+ * and it is granted publish and provenance.
+ *
+ * @param did did:key string
+ * @param info public info obj to be included in DID, defaults to the did as a name
+ * @returns DID PSQR doc
+ */
+function generateDidKeyDoc(did: string, info: Static<typeof PublicInfo> | false = false): Static<typeof Did> {
+    const pub = decodeDidKey(did);
+    const bdid = pub.kid.split('#')[0];
+
+    return Did.check({
+        '@context': [
+            'https://www.w3.org/ns/did/v1',
+            'https://vpsqr.com/ns/did-psqr/v1',
+        ],
+        id: bdid,
+        psqr: {
+            publicIdentity: info === false ? { name: bdid } : PublicInfo.check(info),
+            publicKeys: [pub],
+            permissions: [{
+                grant: ['publish', 'provenance'],
+                kid: pub.kid,
+            }],
+        },
+    });
+}
+
+/**
+ * Get a did-resolver compatible resolver for the did:key method.
+ * Nothing is retrieved, the DID doc is derived from the identifier.
+ *
+ * @returns resolver registry with the key method
+ */
+function getResolver(): { key: DIDResolver } {
+    const resolve = async (did: string, parsed: ParsedDID): Promise<DIDResolutionResult> => {
+        try {
+            const didDocument: any = generateDidKeyDoc(parsed.did);
+
+            return {
+                didResolutionMetadata: { contentType: 'application/did+json' },
+                didDocument,
+                didDocumentMetadata: {},
+            };
+        } catch (error: any) {
+            const msg = handleRuntypeFail(error);
+            return {
+                didResolutionMetadata: { error: 'invalidDid', message: msg },
+                didDocument: null,
+                didDocumentMetadata: {},
+            };
+        }
+    }
+
+    return { key: resolve };
+}
+
+/**
+ * Encode bytes as base58btc.
+ *
+ * @param bytes bytes to encode
+ * @returns base58btc string
+ */
+function encodeBase58(bytes: Buffer): string {
+    let num = BigInt('0x' + (bytes.toString('hex') || '0'));
+    let out = '';
+    while (num > BigInt(0)) {
+        out = BASE58_ALPHABET[Number(num % BigInt(58))] + out;
+        num /= BigInt(58);
+    }
+
+    // leading zero bytes are encoded as 1s
+    for (let i = 0; i < bytes.length && bytes[i] === 0; i++) out = '1' + out;
+
+    return out;
+}
+
+/**
+ * Decode a base58btc string.
+ *
+ * @param str base58btc string
+ * @returns decoded bytes
+ */
+function decodeBase58(str: string): Buffer {
+    let num = BigInt(0);
+    for (let i = 0; i < str.length; i++) {
+        const val = BASE58_ALPHABET.indexOf(str[i]);
+        if (val === -1) throw new Error(`Invalid base58 character ${str[i]}`);
+        num = (num * BigInt(58)) + BigInt(val);
+    }
+
+    let hex = num === BigInt(0) ? '' : num.toString(16);
+    if (hex.length % 2 === 1) hex = '0' + hex;
+
+    // leading 1s are decoded as zero bytes
+    const zeros = str.length - str.replace(/^1+/, '').length;
+
+    return Buffer.concat([Buffer.alloc(zeros), Buffer.from(hex, 'hex')]);
+}
+
+/**
+ * Modular exponentiation for BigInts.
+ *
+ * @param base base number
+ * @param exp exponent
+ * @param mod modulus
+ * @returns base^exp mod mod
+ */
+function modPow(base: bigint, exp: bigint, mod: bigint): bigint {
+    let result = BigInt(1);
+    base %= mod;
+    while (exp > BigInt(0)) {
+        if (exp % BigInt(2) === BigInt(1)) result = (result * base) % mod;
+        base = (base * base) % mod;
+        exp /= BigInt(2);
+    }
+
+    return result;
+}
+
+export { encodeDidKey, decodeDidKey, generateDidKeyDoc, getResolver }
@@ -0,0 +1,154 @@
+import { readFileSync, readdirSync, existsSync, mkdirSync, writeFileSync } from 'fs';
+import { Static } from 'runtypes';
+
+import { handleRuntypeFail } from './utility';
+import { Draft } from '../types/draft';
+import { PostSkeleton } from '../types/post';
+import { DataResponse } from '../types/interfaces';
+
+const homedir = require('os').homedir();
+
+const DRAFT_PATH = `${homedir}/.config/psqr/drafts`;
+
+/**
+ * Get the local path of a draft.
+ *
+ * @param id id of the draft
+ * @returns path to draft file
+ */
+function getDraftPath(id: string): string {
+    return `${DRAFT_PATH}/${id}.json`;
+}
+
+/**
+ * Save a draft, replacing any previous version of it.
+ *
+ * @param draft draft to save
+ * @returns Success or Failure Message Response including the draft
+ */
+function saveDraft(draft: Static<typeof Draft>): DataResponse {
+    try {
+        Draft.check(draft);
+
+        if (existsSync(DRAFT_PATH) === false) mkdirSync(DRAFT_PATH, { recursive: true });
+        writeFileSync(getDraftPath(draft.id), JSON.stringify(draft, null, 4));
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+
+    return { success: true, message: `Saved draft ${draft.id}`, data: draft };
+}
+
+/**
+ * Create a new draft from a post skeleton.
+ * The id of the draft is the timestamp of its first revision.
+ *
+ * @param skeleton post skeleton of the draft
+ * @param attach absolute paths of files to attach when the draft is published
+ * @returns Success or Failure Message Response including the draft
+ */
+function createDraft(skeleton: Static<typeof PostSkeleton>, attach: string[] = []): DataResponse {
+    const created = Date.now();
+
+    return saveDraft({
+        id: String(created),
+        skeleton,
+        attach,
+        revisions: [created],
+    });
+}
+
+/**
+ * Get a stored draft by its id.
+ *
+ * @param id id of the draft
+ * @returns Success or Failure Message Response including the draft
+ */
+function getDraft(id: string): DataResponse {
+    const path = getDraftPath(id);
+    if (/^\d+$/.test(id) === false || existsSync(path) === false) return { success: false, message: `No draft found with id ${id}` };
+
+    try {
+        const draft = Draft.check(JSON.parse(readFileSync(path, 'utf-8')));
+        return { success: true, message: `Found draft ${id}`, data: draft };
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+}
+
+/**
+ * List all stored drafts, oldest first.
+ *
+ * @returns list of drafts
+ */
+function listDrafts(): Static<typeof Draft>[] {
+    if (existsSync(DRAFT_PATH) === false) return [];
+
+    const drafts: Static<typeof Draft>[] = [];
+    readdirSync(DRAFT_PATH).filter(f => f.endsWith('.json')).forEach(f => {
+        try {
+            drafts.push(Draft.check(JSON.parse(readFileSync(`${DRAFT_PATH}/${f}`, 'utf-8'))));
+        } catch (error: any) {
+            // skip corrupted drafts
+        }
+    });
+
+    return drafts.sort((a, b) => a.revisions[0] - b.revisions[0]);
+}
+
+/**
+ * Replace the skeleton of a draft and add a revision.
+ * Nothing is changed if the skeleton is identical to the current one.
+ *
+ * @param id id of the draft
+ * @param skeleton new post skeleton of the draft
+ * @returns Success or Failure Message Response including the draft
+ */
+function reviseDraft(id: string, skeleton: Static<typeof PostSkeleton>): DataResponse {
+    const resp = getDraft(id);
+    if (resp.success === false) return resp;
+
+    const draft: Static<typeof Draft> = resp.data;
+    try {
+        PostSkeleton.check(skeleton);
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+    if (JSON.stringify(skeleton) === JSON.stringify(draft.skeleton)) return { success: true, message: `No changes to draft ${id}`, data: draft };
+
+    const sResp = saveDraft({ ...draft, skeleton, revisions: [...draft.revisions, Date.now()] });
+    if (sResp.success === false) return sResp;
+
+    return { success: true, message: `Saved revision ${sResp.data.revisions.length} of draft ${id}`, data: sResp.data };
+}
+
+/**
+ * Record that a draft was published as the post with the specified infoHash.
+ *
+ * @param id id of the draft
+ * @param hash infoHash of the published post
+ * @returns Success or Failure Message Response including the draft
+ */
+function markDraftPublished(id: string, hash: string): DataResponse {
+    const resp = getDraft(id);
+    if (resp.success === false) return resp;
+
+    return saveDraft({ ...resp.data, published: { hash, timestamp: Date.now() } });
+}
+
+/**
+ * Check whether the latest revision of a draft has been published.
+ *
+ * @param draft draft to check
+ * @returns true if there are no revisions since it was published
+ */
+function isDraftPublished(draft: Static<typeof Draft>): boolean {
+    if (typeof draft.published === 'undefined') return false;
+
+    return draft.published.timestamp >= draft.revisions[draft.revisions.length - 1];
+}
+
+export { createDraft, getDraft, listDrafts, reviseDraft, markDraftPublished, isDraftPublished }
@@ -23,6 +23,10 @@ const POSSIBLE_VARS = [
     'PSQR_ENV',
     'WEBHOSE_TOKEN',
     'HISTORY_LIMIT',
+    'DID_CACHE_TTL',
+    'DID_OFFLINE',
+    'KEY_EXPIRY_WINDOW',
+    'CONTENT_ENDPOINT',
 ];
 
 export interface EnvVars {
@@ -43,6 +47,10 @@ export interface EnvVars {
     PSQR_ENV?: string;
     WEBHOSE_TOKEN?: string;
     HISTORY_LIMIT?: string;
+    DID_CACHE_TTL?: string;
+    DID_OFFLINE?: string;
+    KEY_EXPIRY_WINDOW?: string;
+    CONTENT_ENDPOINT?: string;
 }
 
 /**
@@ -0,0 +1,94 @@
+import { readFileSync, existsSync, mkdirSync, appendFileSync } from 'fs';
+import { Static } from 'runtypes';
+
+import { handleRuntypeFail } from './utility';
+import { Did, DidVersion } from '../types/identity';
+import { DataResponse } from '../types/interfaces';
+
+const homedir = require('os').homedir();
+
+const HISTORY_PATH = `${homedir}/.config/psqr/history`;
+
+/**
+ * Get the local path of the version history of a DID.
+ *
+ * @param did bare did string
+ * @returns path to history file
+ */
+function getHistoryPath(did: string): string {
+    return `${HISTORY_PATH}/${encodeURIComponent(did)}.jsonl`;
+}
+
+/**
+ * List all saved versions of a DID doc, oldest first.
+ *
+ * @param did bare did string
+ * @returns list of versions
+ */
+function listDidVersions(did: string): Static<typeof DidVersion>[] {
+    const path = getHistoryPath(did);
+    if (existsSync(path) === false) return [];
+
+    const versions: Static<typeof DidVersion>[] = [];
+    readFileSync(path, 'utf-8').split('\n').forEach(line => {
+        if (line.trim() === '') return;
+
+        try {
+            versions.push(DidVersion.check(JSON.parse(line)));
+        } catch (error: any) {
+            // skip corrupted lines
+        }
+    });
+
+    return versions;
+}
+
+/**
+ * Get a saved version of a DID doc by its psqr.updated timestamp.
+ * If multiple versions share the timestamp the latest one is returned.
+ *
+ * @param did bare did string
+ * @param updated psqr.updated timestamp of the version, 0 for versions without one
+ * @returns version or false if not found
+ */
+function getDidVersion(did: string, updated: number): Static<typeof DidVersion> | false {
+    const versions = listDidVersions(did).filter(v => v.updated === updated);
+
+    return versions.length === 0 ? false : versions[versions.length - 1];
+}
+
+/**
+ * Append a DID doc to the version history of its DID.
+ * Nothing is appended if it is identical to the latest version.
+ * Versions are keyed by psqr.updated.
+ *
+ * @param didDoc DID doc to save
+ * @returns Success or Failure Message Response including the version
+ */
+function recordDidVersion(didDoc: Static<typeof Did>): DataResponse {
+    try {
+        const doc = Did.check(didDoc);
+        const versions = listDidVersions(doc.id);
+        const latest = versions[versions.length - 1];
+        if (typeof latest !== 'undefined' && JSON.stringify(latest.didDoc) === JSON.stringify(doc)) {
+            return { success: true, message: `DID doc for ${doc.id} is already the latest version`, data: latest };
+        }
+
+        const version = DidVersion.check({
+            did: doc.id,
+            updated: doc.psqr.updated || 0,
+            saved: Date.now(),
+            didDoc: doc,
+        });
+
+        if (existsSync(HISTORY_PATH) === false) mkdirSync(HISTORY_PATH, { recursive: true });
+        appendFileSync(getHistoryPath(doc.id), JSON.stringify(version) + '\n');
+
+        return { success: true, message: `Saved version ${version.updated} of ${doc.id}`, data: version };
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+}
+
+export { listDidVersions, getDidVersion, recordDidVersion }
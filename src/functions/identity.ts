@@ -1,17 +1,22 @@
-// @ts-ignore: rmSync is available despite warnings
-import { readFileSync, writeFileSync, existsSync, mkdirSync, rmSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, statSync } from 'fs';
 import { createHash } from 'crypto';
 import { Static } from 'runtypes';
-import { generateKeyPair, exportJWK } from 'jose';
+import { generateKeyPair, exportJWK, JWK } from 'jose';
 import { Resolver, parse as parseDid } from 'did-resolver'
 import { getResolver as getWebResolver } from 'web-did-resolver'
 import { getResolver as getPsqrResolver } from 'psqr-did-resolver'
+import { getResolver as getKeyResolver, encodeDidKey, generateDidKeyDoc } from './didkey';
 
 import { getVars, setVars } from './env';
 import { runtypeCheck, verifyKeyPairs } from './validate';
-import { PublicKey, PrivateKey, Did, PublicInfo, Identity, KeyPair } from '../types/identity';
+import { decryptPrivateKey, encryptPrivateKey, getPassphrase, isEncryptedKey } from './keystore';
+import { getCachedDid, isCacheFresh, isOffline, setCachedDid } from './cache';
+import { deriveKeyPair } from './mnemonic';
+import { fromW3cDid } from './w3c';
+import { recordDidVersion } from './history';
+import { KeyAlg, PublicKey, PrivateKey, Did, PublicInfo, Identity, KeyPair } from '../types/identity';
 import { DataResponse } from '../types/interfaces';
-import { createFiles, retrieveFiles, handleRuntypeFail, FileConfig, FileResponse, retrieveRegFiles } from './utility';
+import { createFiles, deleteFiles, retrieveFiles, handleRuntypeFail, FileConfig, FileResponse, retrieveRegFiles } from './utility';
 import { DID, KID, Url } from '../types/base-types';
 import { getNetworkConfig } from './network';
 import { NetworkConfig } from '../types/network';
@@ -24,9 +29,11 @@ const homedir = require('os').homedir();
 // setup did resolver methods
 const webResolver = getWebResolver();
 const psqrResolver = getPsqrResolver();
+const keyResolver = getKeyResolver();
 const didResolver = new Resolver({
     ...webResolver,
     ...psqrResolver,
+    ...keyResolver,
 })
 
 const IDENTITY_PATH = `${homedir}/.config/psqr/identities`;
@@ -40,6 +47,27 @@ export type DidResponse = {
     error: Error;
 }
 
+/** Difference between a local and hosted DID value, null if the value is missing */
+export interface DidDiffEntry {
+    key: string;
+    local: any;
+    hosted: any;
+}
+
+/** Differences between a local and hosted DID by section */
+export interface DidDiff {
+    publicIdentity: DidDiffEntry[];
+    publicKeys: DidDiffEntry[];
+    permissions: DidDiffEntry[];
+    revoked: DidDiffEntry[];
+}
+
+/** Validity period of a key as timestamps in ms */
+export interface KeyValidity {
+    notBefore?: number;
+    expires?: number;
+}
+
 /** Key File containing Private and Public Keys */
 export interface KeyFile {
     kid: Static<typeof KID>;
@@ -112,6 +140,14 @@ async function validateIdentity(identity: Static<typeof Identity>, requireKeys =
                 continue;
             }
 
+            // remove keys that have been revoked in the didDoc
+            if (isKeyRevoked(didDoc, key.kid)) {
+                msg += `KeyPair ${keyName} has been revoked and has been removed\n`
+
+                keys.splice(i, 1);
+                continue;
+            }
+
             // verify key runtype
             const priv = PrivateKey.check(key.private);
             const pub = PublicKey.check(key.public);
@@ -166,13 +202,19 @@ async function validateIdentity(identity: Static<typeof Identity>, requireKeys =
  * Create a completely new Identity.
  * If key names aren't specified, this will attempt to get the key name
  * from the kid and fall back on the name 'publish'.
+ * If kid is 'did:key' a did:key identity will be derived from a new key.
+ * If a mnemonic is specified all keys are derived from it.
  *
  * @param kid did with trailing key name
  * @param info public info obj to be included in DID
  * @param keyNames list of names of keys to be included
+ * @param alg algorithm of the keys to create
+ * @param mnemonic mnemonic seed phrase to derive the keys from
  * @returns Success or Failure Message Response including full identity
  */
-async function createIdentity(kid: string, info: Static<typeof PublicInfo>, keyNames: string[] = []): Promise<IdentityResponse> {
+async function createIdentity(kid: string, info: Static<typeof PublicInfo>, keyNames: string[] = [], alg: Static<typeof KeyAlg> = 'ES384', mnemonic = ''): Promise<IdentityResponse> {
+    if (kid === 'did:key') return createKeyIdentity(info, alg, mnemonic);
+
     const did = parseBareDid(kid);
     if (did === false) return { success: false, message: 'Unable to parse kid, expected format did:psqr:{hostname}/{path}#{keyId}' };
 
@@ -183,7 +225,7 @@ async function createIdentity(kid: string, info: Static<typeof PublicInfo>, keyN
 
     try {
         // create keys
-        const keyPairs = await generateKeys(kid, keyNames);
+        const keyPairs = await generateKeys(kid, keyNames, alg, mnemonic);
         if (keyPairs === false) return { success: false, message: 'Unable to generate keys' };
 
         // validate public info
@@ -214,14 +256,53 @@ async function createIdentity(kid: string, info: Static<typeof PublicInfo>, keyN
     }
 }
 
+/**
+ * Create a completely new did:key Identity.
+ * The DID is derived from the newly created key so no hosting is needed.
+ *
+ * @param info public info obj to be included in DID
+ * @param alg algorithm of the key to create
+ * @param mnemonic mnemonic seed phrase to derive the key from
+ * @returns Success or Failure Message Response including full identity
+ */
+async function createKeyIdentity(info: Static<typeof PublicInfo>, alg: Static<typeof KeyAlg>, mnemonic = ''): Promise<IdentityResponse> {
+    try {
+        // create key and derive the did from it
+        const keyPairs = await generateKeys('did:key', ['key'], alg, mnemonic);
+        if (keyPairs === false) return { success: false, message: 'Unable to generate keys' };
+        const did = DID.check(parseBareDid(keyPairs[0].kid));
+
+        // create DID doc using the key and public info
+        const didDoc = generateDidKeyDoc(did, info);
+
+        const identity = Identity.check({
+            did,
+            keyPairs,
+            didDoc,
+        })
+
+        return {
+            success: true,
+            message: `Created identity for DID ${did} successfully`,
+            identity,
+        };
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg }
+    }
+}
+
 /**
  * Save an identity to psqr configuration directory for use.
+ * Private keys are encrypted at rest if a passphrase is provided
+ * or if the identity already has encrypted keys stored.
  *
  * @param identity obj containing identity to add
  * @param requireKeys should at least one valid key pair be required
+ * @param passphrase passphrase to encrypt the private keys with
  * @returns Success or Failure Message Response
  */
-async function addIdentity(identity: Static<typeof Identity>, requireKeys = true): Promise<DataResponse> {
+async function addIdentity(identity: Static<typeof Identity>, requireKeys = true, passphrase = ''): Promise<DataResponse> {
     // add a key if there are no provided keys
     if (identity.keyPairs.length === 0 && requireKeys) return { success: false, message: 'No keys provided' }
 
@@ -241,6 +322,10 @@ async function addIdentity(identity: Static<typeof Identity>, requireKeys = true
         // ensure did dir exists
         if (existsSync(didPath) === false) mkdirSync(didPath, { recursive: true });
 
+        // keep keys encrypted if the identity is already encrypted at rest
+        const encrypt = keys.length > 0 && (passphrase !== '' || hasEncryptedKeys(did));
+        if (encrypt && passphrase === '') passphrase = await getPassphrase(true);
+
         // create list of files to be created
         const files: FileConfig[] = [
             {
@@ -265,21 +350,57 @@ async function addIdentity(identity: Static<typeof Identity>, requireKeys = true
                 {
                     path: `${didPath + keyName}.private.jwk`,
                     relative: false,
-                    data: key.private,
+                    data: encrypt ? await encryptPrivateKey(key.private, passphrase) : key.private,
                 }
             );
         }
 
+        // keep the current DID doc in the version history before replacing it
+        if (existsSync(docPath)) recordDidVersion(JSON.parse(readFileSync(docPath, 'utf-8')));
+
         // create the identity files and return outcome
         const nf = await createFiles(files);
         if (nf.success === false) return { success: false, message: 'Unable to save keys: ' + nf.message }
 
+        const hResp = recordDidVersion(didDoc);
+        if (hResp.success === false) return { success: false, message: 'Unable to save DID doc version: ' + hResp.message }
+
         return { success: true, message: `Successfully added ${did} as an identity` }
     } catch (error: any) {
         return { success: false, message: error.message }
     }
 }
 
+/**
+ * List the DID docs of all identities stored in the psqr configuration directory.
+ * Identity dirs that don't contain a valid DID doc are skipped.
+ *
+ * @returns list of DID docs
+ */
+function listIdentities(): Static<typeof Did>[] {
+    const didDocs: Static<typeof Did>[] = [];
+    if (existsSync(IDENTITY_PATH) === false) return didDocs;
+
+    // did:psqr paths result in nested identity dirs
+    const dirs = [IDENTITY_PATH];
+    while (dirs.length > 0) {
+        const dir = dirs.shift() as string;
+        readdirSync(dir, { withFileTypes: true }).forEach(f => {
+            if (f.isDirectory()) {
+                dirs.push(`${dir}/${f.name}`);
+            } else if (f.name === 'identity.json') {
+                try {
+                    didDocs.push(Did.check(JSON.parse(readFileSync(`${dir}/${f.name}`, 'utf-8'))));
+                } catch (error: any) {
+                    // skip invalid DID docs
+                }
+            }
+        });
+    }
+
+    return didDocs;
+}
+
 /**
  * Get the current default id strings from the ENV
  *
@@ -362,6 +483,15 @@ async function getIdentity(kid = ''): Promise<IdentityResponse> {
         // verify there were keys requested
         const keyName = parseKidKey(kid);
         if (keyName !== false) {
+            if (isKeyRevoked(didDoc, kid)) return { success: false, message: `Key ${kid} has been revoked` };
+
+            // check the validity period listed in the DID doc
+            const didKey = didDoc.psqr.publicKeys.find(k => k.kid === kid);
+            if (typeof didKey !== 'undefined') {
+                const validity = checkKeyValidity(didKey);
+                if (validity.success === false) return { success: false, message: validity.message };
+            }
+
             const kresp = await getKeyPair(kid);
             if (kresp.success === false) return kresp;
             keyPairs.push(kresp.keyPairs[0]);
@@ -474,10 +604,15 @@ function setDefaultIdentity(kid: string): DataResponse {
 }
 
 /**
- * If DID is already present locally, get and return it.
- * If not, get DID from the url in the did parameter string and save it locally.
+ * If DID is one of our identities stored locally, get and return it.
+ * If not, use the resolution cache or resolve the DID from the url
+ * in the did parameter string and cache it.
  * Return the full DID.
  *
+ * Cached DIDs are used until they are older than DID_CACHE_TTL unless pinned.
+ * If DID_OFFLINE is true, cached DIDs are always used and nothing is resolved.
+ * If resolution fails, a stale cached DID will be used instead.
+ *
  * @param did string identifying a DID
  * @returns Success or Failure Message Response including full DID
  */
@@ -494,33 +629,32 @@ async function getDid(did: string): Promise<DidResponse> {
     // set expected local did path
     const didPath = `${IDENTITY_PATH}/${bdid.replace(/:/g, '-')}/identity.json`;
     try {
-        // if DID doesn't exist locally, get from url
-        if (existsSync(didPath) === false) {
-            // make identity dir
-            const dir = didPath.replace('/identity.json', '');
-            if (existsSync(dir) === false) mkdirSync(dir, { recursive: true });
-
-            // retrieve DID using resolver
-            const response = await didResolver.resolve(bdid);
-            if (response.didDocument === null) {
-                return {
-                    success: false,
-                    error: new Error(response.didResolutionMetadata.message),
-                }
-            }
-            const didDoc = Did.check(response.didDocument);
-
-            // create DID local file and return DID
-            writeFileSync(didPath, JSON.stringify(didDoc));
+        // get DID from local file if it is one of our identities, validate, and return
+        if (existsSync(didPath)) {
+            const fileData = JSON.parse(readFileSync(didPath, 'utf-8'));
+            const didDoc = Did.check(fileData);
 
             return { success: true, didDoc }
         }
 
-        // get DID from local file, validate, and return
-        const fileData = JSON.parse(readFileSync(didPath, 'utf-8'));
-        const didDoc = Did.check(fileData);
+        // use cached DID if it hasn't expired or we are offline
+        const cached = getCachedDid(bdid);
+        if (cached !== false && (isCacheFresh(cached) || isOffline())) return { success: true, didDoc: cached.didDoc };
+        if (isOffline()) return { success: false, error: new Error(`Offline mode is enabled and there is no cached DID doc for ${bdid}`) };
 
-        return { success: true, didDoc }
+        // retrieve DID using resolver and cache it
+        const rResp = await resolveDid(bdid);
+        if (rResp.success === false) {
+            // fall back on an expired cached DID
+            if (cached !== false) return { success: true, didDoc: cached.didDoc };
+
+            return rResp;
+        }
+
+        const cResp = setCachedDid(rResp.didDoc);
+        if (cResp.success === false) return { success: false, error: new Error(cResp.message) };
+
+        return rResp;
     } catch (error: any) {
         const msg = handleRuntypeFail(error);
         return { success: false, error: new TypeError(msg) }
@@ -528,7 +662,9 @@ async function getDid(did: string): Promise<DidResponse> {
 }
 
 /**
- * Retrieve DID from url and save it locally.
+ * Retrieve DID from url and update the local copy.
+ * If DID is one of our identities the local identity.json is replaced,
+ * otherwise the DID is refreshed in the resolution cache.
  *
  * @param did string identifying a DID
  * @returns Success or Failure Message Response including a full DID
@@ -546,13 +682,21 @@ async function refreshDid(did: string): Promise<DidResponse> {
     // set expected local did path
     const didPath = `${IDENTITY_PATH}/${bdid.replace(/:/g, '-')}/identity.json`;
     try {
-        // remove DID file if it exists
+        // retrieve latest DID using resolver
+        const resp = await resolveDid(bdid);
+        if (resp.success === false) return resp;
+
+        // replace local DID file if it exists, otherwise update cache
         if (existsSync(didPath)) {
-            rmSync(didPath, { recursive: true })
-        }
+            recordDidVersion(JSON.parse(readFileSync(didPath, 'utf-8')));
+            writeFileSync(didPath, JSON.stringify(resp.didDoc));
 
-        // use getDid function to download latest DID
-        const resp = await getDid(did)
+            const hResp = recordDidVersion(resp.didDoc);
+            if (hResp.success === false) return { success: false, error: new Error(hResp.message) };
+        } else {
+            const cResp = setCachedDid(resp.didDoc);
+            if (cResp.success === false) return { success: false, error: new Error(cResp.message) };
+        }
 
         return resp;
     } catch (error: any) {
@@ -561,14 +705,175 @@ async function refreshDid(did: string): Promise<DidResponse> {
     }
 }
 
+/**
+ * Move the local DID doc of an identity without stored keys into the resolution cache.
+ * Foreign DID docs that were saved as identities can be migrated this way
+ * so they are refreshed like any other cached DID doc.
+ * The age of the local DID doc is kept as the time it was fetched.
+ *
+ * @param did string identifying a DID
+ * @returns Success or Failure Message Response including the cache entry
+ */
+async function migrateDidToCache(did: string): Promise<DataResponse> {
+    const bdid = parseBareDid(did);
+    if (bdid === false) return { success: false, message: 'Invalid Did url string' };
+
+    const didPath = `${IDENTITY_PATH}/${bdid.replace(/:/g, '-')}/identity.json`;
+    if (existsSync(didPath) === false) return { success: false, message: `${bdid} is not stored as an identity` };
+    if (hasStoredKeys(bdid)) return { success: false, message: `${bdid} has stored keys and can't be migrated` };
+
+    try {
+        const didDoc = Did.check(JSON.parse(readFileSync(didPath, 'utf-8')));
+        const cResp = setCachedDid(didDoc, null, statSync(didPath).mtimeMs);
+        if (cResp.success === false) return cResp;
+
+        const dResp = await deleteFiles([{ path: didPath, relative: false }]);
+        if (dResp.success === false) return { success: false, message: 'Unable to remove local DID doc: ' + dResp.message };
+
+        return { success: true, message: `Migrated ${bdid} to the DID doc cache`, data: cResp.data };
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+}
+
+/**
+ * Compare the local DID doc of an identity with the hosted one.
+ * The hosted DID doc is resolved without using any local copies.
+ *
+ * @param did string identifying a DID
+ * @returns Success or Failure Message Response including the DidDiff as data
+ */
+async function diffDid(did: string): Promise<DataResponse> {
+    const bdid = parseBareDid(did);
+    if (bdid === false) return { success: false, message: 'Invalid Did url string' };
+
+    const lResp = await getDid(bdid);
+    if (lResp.success === false) return { success: false, message: 'Unable to get local DID doc because: ' + lResp.error.message };
+    const hResp = await resolveDid(bdid);
+    if (hResp.success === false) return { success: false, message: 'Unable to resolve hosted DID doc because: ' + hResp.error.message };
+
+    const diff = compareDids(lResp.didDoc, hResp.didDoc);
+    const count = diff.publicIdentity.length + diff.publicKeys.length + diff.permissions.length + diff.revoked.length;
+    const msg = count === 0 ? `Local and hosted DID docs for ${bdid} match` : `Found ${count} differences between local and hosted DID docs for ${bdid}`;
+
+    return { success: true, message: msg, data: diff };
+}
+
+/**
+ * Compare two DID docs.
+ * Public keys are matched by kid and compared by x/y,
+ * permissions are matched by kid and compared by grant,
+ * and revocations are matched by kid and compared by time and replacement.
+ *
+ * @param localDoc DID doc whose values are listed as local
+ * @param hostedDoc DID doc whose values are listed as hosted
+ * @returns differences by section
+ */
+function compareDids(localDoc: Static<typeof Did>, hostedDoc: Static<typeof Did>): DidDiff {
+    const local = Did.check(localDoc).psqr;
+    const hosted = Did.check(hostedDoc).psqr;
+    const diff: DidDiff = {
+        publicIdentity: [],
+        publicKeys: [],
+        permissions: [],
+        revoked: [],
+    };
+
+    // compare each publicIdentity field
+    const localInfo: { [key: string]: any } = local.publicIdentity;
+    const hostedInfo: { [key: string]: any } = hosted.publicIdentity;
+    const fields = [...new Set([...Object.keys(localInfo), ...Object.keys(hostedInfo)])];
+    fields.forEach(f => {
+        const lVal = localInfo[f] ?? null;
+        const hVal = hostedInfo[f] ?? null;
+        if (lVal !== hVal) diff.publicIdentity.push({ key: f, local: lVal, hosted: hVal });
+    });
+
+    // compare public keys by kid
+    const kids = [...new Set([...local.publicKeys, ...hosted.publicKeys].map(k => k.kid))];
+    kids.forEach(kid => {
+        const lKey = local.publicKeys.find(k => k.kid === kid);
+        const hKey = hosted.publicKeys.find(k => k.kid === kid);
+        if (lKey?.x === hKey?.x && lKey?.y === hKey?.y) return;
+
+        diff.publicKeys.push({
+            key: kid,
+            local: typeof lKey === 'undefined' ? null : { x: lKey.x, y: lKey.y },
+            hosted: typeof hKey === 'undefined' ? null : { x: hKey.x, y: hKey.y },
+        });
+    });
+
+    // compare permission grants by kid
+    const pKids = [...new Set([...local.permissions, ...hosted.permissions].map(p => p.kid))];
+    pKids.forEach(kid => {
+        const lGrant = local.permissions.filter(p => p.kid === kid).flatMap(p => p.grant).sort();
+        const hGrant = hosted.permissions.filter(p => p.kid === kid).flatMap(p => p.grant).sort();
+        if (lGrant.join(',') === hGrant.join(',')) return;
+
+        diff.permissions.push({
+            key: kid,
+            local: lGrant.length === 0 ? null : lGrant,
+            hosted: hGrant.length === 0 ? null : hGrant,
+        });
+    });
+
+    // compare revocations by kid
+    const lRevoked = local.revoked || [];
+    const hRevoked = hosted.revoked || [];
+    const rKids = [...new Set([...lRevoked, ...hRevoked].map(r => r.kid))];
+    rKids.forEach(kid => {
+        const lRev = lRevoked.find(r => r.kid === kid);
+        const hRev = hRevoked.find(r => r.kid === kid);
+        if (lRev?.revoked === hRev?.revoked && lRev?.replacedBy === hRev?.replacedBy) return;
+
+        diff.revoked.push({
+            key: kid,
+            local: typeof lRev === 'undefined' ? null : { revoked: lRev.revoked, replacedBy: lRev.replacedBy ?? null },
+            hosted: typeof hRev === 'undefined' ? null : { revoked: hRev.revoked, replacedBy: hRev.replacedBy ?? null },
+        });
+    });
+
+    return diff;
+}
+
+/**
+ * Resolve a DID using the did resolver without any local copies.
+ * Standard W3C DID docs without a psqr block are converted to DID PSQR docs.
+ *
+ * @param did bare did string
+ * @returns Success or Failure Message Response including a full DID
+ */
+async function resolveDid(did: string): Promise<DidResponse> {
+    try {
+        const response = await didResolver.resolve(did);
+        if (response.didDocument === null) {
+            return {
+                success: false,
+                error: new Error(response.didResolutionMetadata.message),
+            }
+        }
+        const didDoc = fromW3cDid(response.didDocument);
+
+        return { success: true, didDoc }
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, error: new TypeError(msg) }
+    }
+}
+
 /**
  * Retrieve a pair of keys stored locally.
  * Keys are returned in JWK format.
  *
+ * Encrypted private keys are decrypted with the passphrase
+ * or with one from getPassphrase if it is empty.
+ *
  * @param kid did with trailing key name
+ * @param passphrase passphrase to decrypt an encrypted private key with
  * @returns Success or Failure Message Response including pair of keys requested as JWKs
  */
-async function getKeyPair(kid = ''): Promise<KeyPairsResponse> {
+async function getKeyPair(kid = '', passphrase = ''): Promise<KeyPairsResponse> {
     // if empty use default
     if (kid === '') {
         const ids = getDefaultIds();
@@ -589,8 +894,8 @@ async function getKeyPair(kid = ''): Promise<KeyPairsResponse> {
     let pubKey;
 
     try {
-        // parse file contents and validate JWK
-        privKey = PrivateKey.check(JSON.parse(priv));
+        // parse file contents, decrypt if necessary, and validate JWK
+        privKey = await parsePrivateKey(priv, passphrase);
         pubKey = PublicKey.check(JSON.parse(pub));
     } catch (error: any) {
         const msg = handleRuntypeFail(error);
@@ -601,6 +906,10 @@ async function getKeyPair(kid = ''): Promise<KeyPairsResponse> {
     const vkResp = await verifyKeyPairs(pubKey, privKey);
     if (vkResp === false) return { success: false, message: 'Keys found but were not valid pairs' }
 
+    // refuse keys outside of their validity period
+    const validity = checkKeyValidity(pubKey);
+    if (validity.success === false) return { success: false, message: validity.message };
+
     // return keys as JWK
     return {
         success: true,
@@ -617,10 +926,14 @@ async function getKeyPair(kid = ''): Promise<KeyPairsResponse> {
  * Retrieve all key pairs stored locally with an identity.
  * Keys are returned in JWK format.
  *
+ * Encrypted private keys are decrypted with the passphrase
+ * or with one from getPassphrase if it is empty.
+ *
  * @param did string identifying a DID
+ * @param passphrase passphrase to decrypt encrypted private keys with
  * @returns false or array of key Pairs
  */
-async function getAllKeyPairs(did: string): Promise<KeyPairsResponse> {
+async function getAllKeyPairs(did: string, passphrase = ''): Promise<KeyPairsResponse> {
     // ensure it is only the did string, no key names
     const bdid = parseBareDid(did);
     if (bdid === false) return { success: false, message: 'Invalid Did url string' };
@@ -638,10 +951,7 @@ async function getAllKeyPairs(did: string): Promise<KeyPairsResponse> {
     if (resp.success === false) return { success: false, message: resp.message };
 
     // parse list of keys
-    const keys: Array<
-        Static<typeof PublicKey> |
-        Static<typeof PrivateKey>
-    > = resp.files.map(f => {
+    const parsedKeys = resp.files.map(f => {
         if (typeof f === 'object' && typeof f.data === 'string') {
             return JSON.parse(f.data)
         }
@@ -649,6 +959,26 @@ async function getAllKeyPairs(did: string): Promise<KeyPairsResponse> {
         return null;
     });
 
+    // decrypt any private keys that are encrypted at rest
+    const keys: Array<
+        Static<typeof PublicKey> |
+        Static<typeof PrivateKey>
+    > = [];
+    for (let i = 0; i < parsedKeys.length; i++) {
+        const key = parsedKeys[i];
+        if (isEncryptedKey(key) === false) {
+            keys.push(key);
+            continue;
+        }
+
+        try {
+            keys.push(await parsePrivateKey(key, passphrase));
+        } catch (error: any) {
+            const msg = handleRuntypeFail(error);
+            return { success: false, message: msg };
+        }
+    }
+
     // pair public and private keys
     const paired: string[] = [];
     const keyPairs: Static<typeof KeyPair>[] = [];
@@ -714,19 +1044,32 @@ async function getAllKeyPairs(did: string): Promise<KeyPairsResponse> {
  * @param identity obj containing identity to use
  * @param kid did with trailing key name
  * @param keyName name of key to be added to DID
+ * @param alg algorithm of the key to create
+ * @param mnemonic mnemonic seed phrase to derive the key from
+ * @param validity notBefore and expires timestamps to set on the key
  * @returns Success or Failure Message Response including new identity object
  */
-async function addNewKeyPair(identity: Static<typeof Identity>, kid: string, keyName = ''): Promise<IdentityResponse> {
+async function addNewKeyPair(identity: Static<typeof Identity>, kid: string, keyName = '', alg: Static<typeof KeyAlg> = 'ES384', mnemonic = '', validity: KeyValidity = {}): Promise<IdentityResponse> {
     // get key name from kid if empty or fallback to publish
     if (keyName === '') {
         keyName = parseKidKey(kid) || 'publish';
     }
 
     // generate new keys based on key name
-    const keyPair = await generateKeys(kid, [keyName]);
+    const keyPair = await generateKeys(kid, [keyName], alg, mnemonic);
     if (keyPair === false) return { success: false, message: 'Unable to generate keys' };
     const keys = keyPair[0];
 
+    // set the validity period on both keys so the key files match the DID
+    if (typeof validity.notBefore === 'number' && typeof validity.expires === 'number' && validity.notBefore >= validity.expires) {
+        return { success: false, message: 'Key must become valid before it expires' };
+    }
+    [keys.private, keys.public].forEach(k => {
+        if (typeof k === 'undefined') return;
+        if (typeof validity.notBefore === 'number') k.notBefore = validity.notBefore;
+        if (typeof validity.expires === 'number') k.expires = validity.expires;
+    });
+
     try {
         // validate identity and keys
         Identity.check(identity);
@@ -811,6 +1154,7 @@ async function addExistingKeyPair(identity: Static<typeof Identity>, keyPair: St
                 grant: grant,
                 kid: keyPair.kid,
             })
+            didDoc.psqr.updated = Date.now();
         }
 
         // ensure no duplicates
@@ -841,15 +1185,332 @@ async function addExistingKeyPair(identity: Static<typeof Identity>, keyPair: St
     }
 }
 
+/**
+ * Rotate a KeyPair of a provided identity.
+ * A replacement key is generated, the grants of the old key are moved to it,
+ * and the old key is marked as revoked in the DID.
+ * The old public key stays in the DID so signatures made before
+ * the revocation can still be verified.
+ * If keyName isn't specified, the old key name will be used with an incremented number.
+ * If a mnemonic is specified the replacement key is derived from it so it can be recovered.
+ * This does NOT save the new identity anywhere.
+ *
+ * @param identity obj containing identity to use
+ * @param kid did with trailing key name of the key to rotate
+ * @param keyName name of the replacement key
+ * @param mnemonic mnemonic seed phrase to derive the replacement key from
+ * @returns Success or Failure Message Response including new identity object
+ */
+async function rotateKeyPair(identity: Static<typeof Identity>, kid: string, keyName = '', mnemonic = ''): Promise<IdentityResponse> {
+    const parsed = parseKid(kid);
+    if (parsed === false) return { success: false, message: 'Unable to parse kid, expected format did:psqr:{hostname}/{path}#{keyId}' };
+
+    try {
+        // validate identity and get didDoc
+        Identity.check(identity);
+        const didDoc = Did.check(identity.didDoc);
+        const revoked = didDoc.psqr.revoked || [];
+
+        // ensure the key is present and hasn't already been revoked
+        const didKeys = didDoc.psqr.publicKeys;
+        if (didKeys.filter(k => k.kid === kid).length === 0) return { success: false, message: `Key ${kid} is not present in the DID` };
+        if (isKeyRevoked(didDoc, kid)) return { success: false, message: `Key ${kid} has already been revoked` };
+
+        // determine name of the replacement key
+        if (keyName === '') {
+            const base = parsed.kname.replace(/\d+$/, '');
+            let n = 2;
+            while (didKeys.filter(k => k.kid === `${parsed.bdid}#${base}${n}`).length > 0) n++;
+            keyName = base + n;
+        }
+        const newKid = `${parsed.bdid}#${keyName}`;
+        if (didKeys.filter(k => k.kid === newKid).length > 0) {
+            return { success: false, message: `A KeyPair named ${keyName} is already present in the DID` };
+        }
+
+        // generate replacement keys with the same algorithm as the old key
+        const oldKey = didKeys.filter(k => k.kid === kid)[0];
+        const keyPair = await generateKeys(newKid, [keyName], oldKey.alg, mnemonic);
+        if (keyPair === false) return { success: false, message: 'Unable to generate keys' };
+        const keys = KeyPair.check(keyPair[0]);
+
+        // move grants from the old key to the replacement key
+        const rules = didDoc.psqr.permissions.filter(p => p.kid === kid);
+        const grant: string[] = [];
+        rules.forEach(r => grant.push(...r.grant.filter(g => grant.includes(g) === false)));
+        didDoc.psqr.permissions = didDoc.psqr.permissions.filter(p => p.kid !== kid);
+        didDoc.psqr.permissions.push({
+            grant,
+            kid: newKid,
+        });
+
+        // add public key to DID and mark the old key as revoked
+        const now = Date.now();
+        didDoc.psqr.publicKeys.push(PublicKey.check(keys.public));
+        revoked.push({
+            kid,
+            revoked: now,
+            replacedBy: newKid,
+        });
+        didDoc.psqr.revoked = revoked;
+        didDoc.psqr.updated = now;
+
+        // replace the old KeyPair with the new one
+        const keyPairs = identity.keyPairs.filter(k => k.kid !== kid);
+        keyPairs.push(keys);
+
+        const newId = Identity.check({
+            did: identity.did,
+            didDoc,
+            keyPairs,
+        })
+
+        return { success: true, message: `Rotated key ${kid} to ${newKid}`, identity: newId }
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg }
+    }
+}
+
+/**
+ * Add or remove permission grants of a key in a provided identity.
+ * A permission without any grants left is removed from the DID.
+ * This does NOT save the new identity anywhere.
+ *
+ * @param identity obj containing identity to use
+ * @param kid did with trailing key name
+ * @param grants list of grants to add or remove, ie admin or publish
+ * @param add add the grants if true, remove them if false
+ * @returns Success or Failure Message Response including new identity object
+ */
+function updateGrants(identity: Static<typeof Identity>, kid: string, grants: string[], add = true): IdentityResponse {
+    try {
+        // validate identity and get didDoc
+        Identity.check(identity);
+        const didDoc = Did.check(identity.didDoc);
+
+        // ensure the key is present and usable
+        if (didDoc.psqr.publicKeys.filter(k => k.kid === kid).length === 0) return { success: false, message: `Key ${kid} is not present in the DID publicKeys` };
+        if (add && isKeyRevoked(didDoc, kid)) return { success: false, message: `Key ${kid} has been revoked` };
+
+        // combine all current grants of the key
+        const current: string[] = [];
+        didDoc.psqr.permissions.filter(p => p.kid === kid).forEach(p => {
+            current.push(...p.grant.filter(g => current.includes(g) === false));
+        });
+
+        let grant: string[];
+        if (add) {
+            grant = current.concat(grants.filter(g => current.includes(g) === false));
+        } else {
+            const missing = grants.filter(g => current.includes(g) === false);
+            if (missing.length > 0) return { success: false, message: `Key ${kid} does not have the grants: ${missing.join(', ')}` };
+
+            grant = current.filter(g => grants.includes(g) === false);
+        }
+
+        // replace the permissions of the key
+        didDoc.psqr.permissions = didDoc.psqr.permissions.filter(p => p.kid !== kid);
+        if (grant.length > 0) {
+            didDoc.psqr.permissions.push({
+                grant,
+                kid,
+            });
+        }
+        didDoc.psqr.updated = Date.now();
+
+        const newId = Identity.check({
+            did: identity.did,
+            didDoc,
+            keyPairs: identity.keyPairs,
+        })
+
+        const msg = `${add ? 'Granted' : 'Revoked'} ${grants.join(', ')} ${add ? 'to' : 'from'} ${kid}`;
+        return { success: true, message: msg, identity: newId }
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg }
+    }
+}
+
+/**
+ * Regenerate the key pairs of a DID from a mnemonic seed phrase.
+ * Each key that hasn't been revoked is derived again and compared
+ * to the public key listed in the DID.
+ *
+ * @param didDoc DID doc listing the keys to recover
+ * @param mnemonic mnemonic seed phrase the keys were derived from
+ * @returns Success or Failure Message Response including matching key pairs and lists of matched and mismatched kids
+ */
+async function recoverKeyPairs(didDoc: Static<typeof Did>, mnemonic: string): Promise<DataResponse> {
+    try {
+        const doc = Did.check(didDoc);
+        const keyPairs: Static<typeof KeyPair>[] = [];
+        const matched: string[] = [];
+        const mismatched: string[] = [];
+
+        const publicKeys = doc.psqr.publicKeys.filter(k => isKeyRevoked(doc, k.kid) === false);
+        for (let i = 0; i < publicKeys.length; i++) {
+            const pub = publicKeys[i];
+            const kname = parseKidKey(pub.kid);
+            if (kname === false) return { success: false, message: `Unable to parse key name from ${pub.kid}` };
+
+            // did:key kids are derived from the key so they were generated with the generic name
+            const isDidKey = pub.kid.startsWith('did:key:');
+            const derived = await generateKeys(isDidKey ? 'did:key' : doc.id, [isDidKey ? 'key' : kname], pub.alg, mnemonic);
+            if (derived === false) return { success: false, message: `Unable to derive keys for ${pub.kid}` };
+
+            const pair = derived[0];
+            if (pair.kid === pub.kid && pair.public?.x === pub.x && pair.public?.y === pub.y) {
+                keyPairs.push(pair);
+                matched.push(pub.kid);
+            } else {
+                mismatched.push(pub.kid);
+            }
+        }
+
+        return {
+            success: mismatched.length === 0,
+            message: `Recovered ${matched.length} of ${publicKeys.length} keys for ${doc.id}`,
+            data: { keyPairs, matched, mismatched },
+        };
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+}
+
+/**
+ * Check the locally stored key pairs of every public key in a DID.
+ * Each key is reported as valid, invalid, missing, encrypted, or revoked.
+ * Encrypted private keys are only checked if decrypt is true,
+ * in which case the passphrase is retrieved with getPassphrase.
+ *
+ * @param didDoc DID doc listing the public keys
+ * @param decrypt decrypt encrypted private keys to check them
+ * @returns list of responses with the kid and status of each key as data
+ */
+async function checkStoredKeyPairs(didDoc: Static<typeof Did>, decrypt = false): Promise<DataResponse[]> {
+    const items: DataResponse[] = [];
+    for (let i = 0; i < didDoc.psqr.publicKeys.length; i++) {
+        const pubKey = didDoc.psqr.publicKeys[i];
+        const kid = pubKey.kid;
+
+        // revoked keys don't need to be stored
+        if (isKeyRevoked(didDoc, kid)) {
+            items.push({ success: true, message: `Key ${kid} has been revoked`, data: { kid, status: 'revoked' } });
+            continue;
+        }
+
+        const paths = parseIdentityPaths(kid);
+        if (paths.success === false) {
+            items.push({ success: false, message: paths.message, data: { kid, status: 'missing' } });
+            continue;
+        }
+        if (existsSync(paths.data.privPath) === false) {
+            items.push({ success: false, message: `Private key of ${kid} is not stored`, data: { kid, status: 'missing' } });
+            continue;
+        }
+
+        try {
+            const priv = JSON.parse(readFileSync(paths.data.privPath, 'utf-8'));
+            if (isEncryptedKey(priv) && decrypt === false) {
+                items.push({ success: true, message: `Private key of ${kid} is encrypted`, data: { kid, status: 'encrypted' } });
+                continue;
+            }
+
+            const privKey = await parsePrivateKey(priv);
+            const valid = await verifyKeyPairs(pubKey, privKey);
+            items.push({
+                success: valid,
+                message: valid ? `Key pair ${kid} is valid` : `Stored private key of ${kid} doesn't match the DID public key`,
+                data: { kid, status: valid ? 'valid' : 'invalid' },
+            });
+        } catch (error: any) {
+            const msg = handleRuntypeFail(error);
+            items.push({ success: false, message: msg, data: { kid, status: 'invalid' } });
+        }
+    }
+
+    return items;
+}
+
+/**
+ * Check whether a key has been revoked in a DID.
+ * A key is considered revoked for anything signed at or after its revocation time.
+ *
+ * @param didDoc DID doc the key is listed in
+ * @param kid did with trailing key name
+ * @param time timestamp in ms to check the revocation against, defaults to now
+ * @returns boolean based on revocation
+ */
+function isKeyRevoked(didDoc: Static<typeof Did>, kid: string, time = Date.now()): boolean {
+    const revoked = didDoc.psqr.revoked || [];
+
+    return revoked.filter(r => r.kid === kid && r.revoked <= time).length > 0;
+}
+
+/**
+ * Check whether a key is within its validity period.
+ * Keys without notBefore or expires have no limit on that side.
+ *
+ * @param key public key to check
+ * @param time timestamp in ms to check the validity at, defaults to now
+ * @returns Success or Failure Message Response
+ */
+function checkKeyValidity(key: Static<typeof PublicKey>, time = Date.now()): DataResponse {
+    if (typeof key.notBefore === 'number' && time < key.notBefore) {
+        return { success: false, message: `Key ${key.kid} is not valid until ${new Date(key.notBefore).toISOString()}` };
+    }
+    if (typeof key.expires === 'number' && time >= key.expires) {
+        return { success: false, message: `Key ${key.kid} expired at ${new Date(key.expires).toISOString()}` };
+    }
+
+    return { success: true, message: `Key ${key.kid} is valid` };
+}
+
+/**
+ * Audit the validity periods of the keys in a DID.
+ * Revoked keys are skipped.
+ * Each key is reported as valid, pending, expiring within the window, or expired.
+ *
+ * @param didDoc DID doc to audit
+ * @param window time in ms before expiry to warn about a key
+ * @param time timestamp in ms to audit at, defaults to now
+ * @returns list of responses with the status of each key as data
+ */
+function auditKeyExpiry(didDoc: Static<typeof Did>, window: number, time = Date.now()): DataResponse[] {
+    return didDoc.psqr.publicKeys.filter(k => isKeyRevoked(didDoc, k.kid, time) === false).map(k => {
+        const data = { kid: k.kid, status: 'valid', notBefore: k.notBefore, expires: k.expires };
+
+        const validity = checkKeyValidity(k, time);
+        if (validity.success === false) {
+            data.status = typeof k.expires === 'number' && time >= k.expires ? 'expired' : 'pending';
+            return { success: data.status === 'pending', message: validity.message, data };
+        }
+
+        if (typeof k.expires === 'number' && k.expires - time <= window) {
+            data.status = 'expiring';
+            return { success: false, message: `Key ${k.kid} expires at ${new Date(k.expires).toISOString()}`, data };
+        }
+
+        return { success: true, message: validity.message, data };
+    });
+}
+
 /**
  * Retrieve an arbitrary amount of keys.
  * This requires specific knowledge with regards to the exact paths these keys
  * are located at.
  *
+ * Encrypted private keys are decrypted with the passphrase
+ * or with one from getPassphrase if it is empty.
+ *
  * @param keyFiles array of paths to local key pairs
+ * @param passphrase passphrase to decrypt encrypted private keys with
  * @returns array of key pairs or false on error
  */
-async function retrieveKeys(keyFiles: KeyFile[]): Promise<Static<typeof KeyPair>[] | false> {
+async function retrieveKeys(keyFiles: KeyFile[], passphrase = ''): Promise<Static<typeof KeyPair>[] | false> {
     const pairs: Static<typeof KeyPair>[] = [];
     for (let i = 0; i < keyFiles.length; i++) {
         const key = keyFiles[i];
@@ -887,9 +1548,10 @@ async function retrieveKeys(keyFiles: KeyFile[]): Promise<Static<typeof KeyPair>
 
         try {
             // start assembly of key pair and validate private JWK
+            const privKey = await parsePrivateKey(privateFile.data, passphrase);
             const pair: Static<typeof KeyPair> = {
                 kid: key.kid,
-                private: PrivateKey.check(JSON.parse(privateFile.data)),
+                private: privKey,
             }
 
             // validate and add public key if present
@@ -910,7 +1572,7 @@ async function retrieveKeys(keyFiles: KeyFile[]): Promise<Static<typeof KeyPair>
 
                 // if public key wasn't found, parse it from the private key file
                 if (typeof pair.public === 'undefined') {
-                    const tempKey = JSON.parse(privateFile.data);
+                    const tempKey: any = { ...privKey };
                     delete tempKey.d;
 
                     pair.public = PublicKey.check(tempKey);
@@ -928,39 +1590,186 @@ async function retrieveKeys(keyFiles: KeyFile[]): Promise<Static<typeof KeyPair>
     return pairs;
 }
 
+/**
+ * Parse a stored private key and decrypt it if it is encrypted at rest.
+ * If no passphrase is provided one will be retrieved with getPassphrase.
+ *
+ * @param data private key file data or parsed obj
+ * @param passphrase passphrase to decrypt the key with
+ * @returns Private Key represented as a JWK object
+ */
+async function parsePrivateKey(data: string | object, passphrase = ''): Promise<Static<typeof PrivateKey>> {
+    const key = typeof data === 'string' ? JSON.parse(data) : data;
+    if (isEncryptedKey(key) === false) return PrivateKey.check(key);
+
+    const pass = passphrase === '' ? await getPassphrase() : passphrase;
+
+    return decryptPrivateKey(key, pass);
+}
+
+/**
+ * Check whether a locally stored identity has any private keys.
+ *
+ * @param did string identifying a DID
+ * @returns boolean based on stored keys
+ */
+function hasStoredKeys(did: string): boolean {
+    const bdid = parseBareDid(did);
+    if (bdid === false) return false;
+
+    const dir = `${IDENTITY_PATH}/${bdid.replace(/:/g, '-')}`;
+    if (existsSync(dir) === false) return false;
+
+    return readdirSync(dir).some(f => /.+\.private\.jwk$/.test(f));
+}
+
+/**
+ * Check whether any private keys of a locally stored identity are encrypted at rest.
+ *
+ * @param did string identifying a DID
+ * @returns boolean based on encryption
+ */
+function hasEncryptedKeys(did: string): boolean {
+    const bdid = parseBareDid(did);
+    if (bdid === false) return false;
+
+    const dir = `${IDENTITY_PATH}/${bdid.replace(/:/g, '-')}`;
+    if (existsSync(dir) === false) return false;
+
+    try {
+        const keyFiles = readdirSync(dir).filter(f => /.+\.private\.jwk$/.test(f));
+
+        return keyFiles.some(f => isEncryptedKey(JSON.parse(readFileSync(`${dir}/${f}`, 'utf-8'))));
+    } catch (error: any) {
+        return false;
+    }
+}
+
+/**
+ * Request the passphrase of an identity up front if its keys are encrypted at rest.
+ * Use this in commands before starting a spinner so a prompt isn't interrupted.
+ * If no kid is specified, the default identity will be used.
+ *
+ * @param kid did with optional trailing key name
+ * @returns Success or Failure Message Response
+ */
+async function unlockIdentity(kid = ''): Promise<DataResponse> {
+    let bdid: string | false;
+    if (kid === '') {
+        const defVars = getVars(['DEFAULT_DID']);
+        bdid = defVars.DEFAULT_DID || false;
+    } else {
+        bdid = parseBareDid(kid);
+    }
+
+    // nothing to unlock if there are no encrypted keys
+    if (bdid === false || hasEncryptedKeys(bdid) === false) {
+        return { success: true, message: 'No encrypted keys to unlock' };
+    }
+
+    try {
+        await getPassphrase();
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: 'Unable to get passphrase because: ' + msg };
+    }
+
+    return { success: true, message: `Unlocked keys for ${bdid}` };
+}
+
+/**
+ * Encrypt or decrypt all private keys of a locally stored identity.
+ * If passphrase is empty the keys will be stored as plaintext JWKs.
+ *
+ * @param did string identifying a DID
+ * @param passphrase passphrase to encrypt the keys with, empty to decrypt them
+ * @param currentPassphrase passphrase the keys are currently encrypted with
+ * @returns Success or Failure Message Response including list of key files updated
+ */
+async function setKeyEncryption(did: string, passphrase: string, currentPassphrase = ''): Promise<DataResponse> {
+    const bdid = parseBareDid(did);
+    if (bdid === false) return { success: false, message: 'Invalid Did url string' };
+
+    // get all current key pairs
+    const kResp = await getAllKeyPairs(bdid, currentPassphrase);
+    if (kResp.success === false) return kResp;
+
+    try {
+        // assemble private key files
+        const dir = `${IDENTITY_PATH}/${bdid.replace(/:/g, '-')}/`;
+        const files: FileConfig[] = [];
+        for (let i = 0; i < kResp.keyPairs.length; i++) {
+            const kp = kResp.keyPairs[i];
+            const keyName = parseKidKey(kp.kid);
+            if (keyName === false) continue;
+
+            files.push({
+                path: `${dir + keyName}.private.jwk`,
+                relative: false,
+                data: passphrase === '' ? kp.private : await encryptPrivateKey(kp.private, passphrase),
+            });
+        }
+
+        const nf = await createFiles(files);
+        if (nf.success === false) return { success: false, message: 'Unable to save keys: ' + nf.message };
+
+        return {
+            success: true,
+            message: `Successfully ${passphrase === '' ? 'decrypted' : 'encrypted'} ${files.length} keys for ${bdid}`,
+            data: nf.files,
+        }
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg }
+    }
+}
+
 /**
  * Create an arbitrary amount of key pairs for a DID.
  * NOTE: This will not add the public keys to the appropriate
  * section of the DID.
+ * If did is 'did:key' each key gets its own did:key kid and the names are ignored.
+ * If a mnemonic is specified the keys are derived from it using the kid as the path.
  *
  * @param did string identifying a DID
  * @param names array of names of keys to create
+ * @param alg algorithm of the keys to create
+ * @param mnemonic mnemonic seed phrase to derive the keys from
  * @returns array of key pairs or false on error
  */
-async function generateKeys(did: string, names: string[]): Promise<Static<typeof KeyPair>[] | false> {
-    const alg = 'ES384';
-
+async function generateKeys(did: string, names: string[], alg: Static<typeof KeyAlg> = 'ES384', mnemonic = ''): Promise<Static<typeof KeyPair>[] | false> {
     // ensure did doesn't have key name
-    const bdid = parseBareDid(did);
+    const didKey = did === 'did:key';
+    const bdid = didKey ? did : parseBareDid(did);
     if (bdid === false) return false;
 
     // iterate through requested key names
     const keyPairs: Static<typeof KeyPair>[] = [];
     for (let i = 0; i < names.length; i++) {
-        const { publicKey, privateKey } = await generateKeyPair(alg, {
-            extractable: true,
-        });
+        // get JWK representation of derived or random keys
+        let publicJWK: JWK;
+        let privateJWK: JWK;
+        if (mnemonic === '') {
+            const { publicKey, privateKey } = await generateKeyPair(alg, {
+                extractable: true,
+            });
 
-        // get JWK representation of keys
-        const publicJWK = await exportJWK(publicKey);
-        const privateJWK = await exportJWK(privateKey);
+            publicJWK = await exportJWK(publicKey);
+            privateJWK = await exportJWK(privateKey);
+        } else {
+            ({ publicJWK, privateJWK } = await deriveKeyPair(mnemonic, bdid + '#' + names[i], alg));
+        }
 
         // add alg since it is required
         publicJWK.alg = alg;
         privateJWK.alg = alg;
 
-        // add kid
-        const kid = bdid + '#' + names[i]
+        // add kid, did:key kids are derived from the public key
+        let kid = bdid + '#' + names[i]
+        if (didKey) {
+            const keyDid = encodeDidKey(publicJWK);
+            kid = `${keyDid}#${keyDid.replace('did:key:', '')}`;
+        }
         publicJWK.kid = kid;
         privateJWK.kid = kid;
 
@@ -1197,8 +2006,9 @@ function parseDidUrl(did: string): Static<typeof Url> | false {
     const bdid = parseBareDid(did);
     if (bdid === false) return false;
 
-    // determine didType
+    // determine didType, did:key docs aren't hosted anywhere
     const didType = parseDidType(bdid);
+    if (didType === 'key') return false;
 
     try {
         // separate components
@@ -1280,6 +2090,35 @@ async function verifyAdminIdentity(did: string): Promise<IdentityResponse> {
     return idResp;
 }
 
+/**
+ * Verify that a key is granted a permission in its DID doc and hasn't been revoked.
+ * Use this before signing to fail fast instead of being rejected by a Broadcaster.
+ * If no kid is specified, the default identity will be used.
+ *
+ * @param kid did with trailing key name
+ * @param grant permission the key needs, ie publish
+ * @returns Success or Failure Message Response
+ */
+async function verifyKeyGrant(kid = '', grant = 'publish'): Promise<DataResponse> {
+    if (kid === '') {
+        const defResp = getDefaultIds();
+        if (defResp.success === false) return { success: false, message: 'Unable to get default identity because: ' + defResp.message };
+
+        kid = defResp.data.kid;
+    }
+
+    const dResp = await getDid(kid);
+    if (dResp.success === false) return { success: false, message: `Unable to get DID doc for ${kid} because: ${dResp.error.message}` };
+    const didDoc = dResp.didDoc;
+
+    if (isKeyRevoked(didDoc, kid)) return { success: false, message: `Key ${kid} has been revoked` };
+
+    const granted = didDoc.psqr.permissions.filter(p => p.kid === kid && p.grant.includes(grant));
+    if (granted.length === 0) return { success: false, message: `Key ${kid} is not granted ${grant} in its DID doc` };
+
+    return { success: true, message: `Key ${kid} is granted ${grant}` };
+}
+
 /**
  * Get the appropriate url to update the specified DID with.
  * If not api is found for the root domain of the did, this will
@@ -1359,4 +2198,6 @@ export {
     getDid, getKeyPair, addNewKeyPair, addExistingKeyPair, retrieveKeys, generateKeys,
     validateIdentity, addIdentity, createIdentity, getIdentity, getDefaultIds, setDefaultIdentity, getFullIdentity,
     refreshDid, generateInfoHash, parseDidUrl, parseBareDid, parseKidKey, parseDidType, verifyAdminIdentity, createIdentityAxiosClient,
+    hasEncryptedKeys, unlockIdentity, setKeyEncryption, rotateKeyPair, isKeyRevoked, parseIdentityPaths, resolveDid, migrateDidToCache, diffDid, compareDids, updateGrants, verifyKeyGrant, recoverKeyPairs,
+    listIdentities, checkKeyValidity, auditKeyExpiry, checkStoredKeyPairs,
 };
@@ -0,0 +1,137 @@
+import { FlattenedEncrypt, flattenedDecrypt } from 'jose';
+import { Static } from 'runtypes';
+
+import { EncryptedKey, PrivateKey } from '../types/identity';
+import { runtypeCheck } from './validate';
+
+const inquirer = require('inquirer');
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Passphrase derived key wrapping and content encryption algorithms */
+const KEY_ALG = 'PBES2-HS512+A256KW';
+const CONTENT_ALG = 'A256GCM';
+const ITERATIONS = 310000;
+
+/** Process ENV var that can hold the keystore passphrase */
+export const PASSPHRASE_VAR = 'PSQR_PASSPHRASE';
+
+// passphrase cache so multiple keys can be unlocked with one prompt
+let passphraseCache = '';
+
+/**
+ * Encrypt a Private Key with a passphrase.
+ * The key is wrapped with a PBES2 derived key and encrypted with AES-GCM.
+ *
+ * @param key Private Key represented as a JWK object
+ * @param passphrase passphrase to derive the wrapping key from
+ * @returns encrypted key obj
+ */
+async function encryptPrivateKey(key: Static<typeof PrivateKey>, passphrase: string): Promise<Static<typeof EncryptedKey>> {
+    const privKey = PrivateKey.check(key);
+
+    const jwe = await new FlattenedEncrypt(encoder.encode(JSON.stringify(privKey)))
+        .setProtectedHeader({
+            alg: KEY_ALG,
+            enc: CONTENT_ALG,
+            kid: privKey.kid,
+        })
+        .setKeyManagementParameters({ p2c: ITERATIONS })
+        .encrypt(encoder.encode(passphrase));
+
+    return EncryptedKey.check({
+        kid: privKey.kid,
+        jwe,
+    });
+}
+
+/**
+ * Decrypt a Private Key with a passphrase.
+ *
+ * @param key encrypted key obj
+ * @param passphrase passphrase the key was encrypted with
+ * @returns Private Key represented as a JWK object
+ */
+async function decryptPrivateKey(key: Static<typeof EncryptedKey>, passphrase: string): Promise<Static<typeof PrivateKey>> {
+    const encKey = EncryptedKey.check(key);
+
+    let plaintext: Uint8Array;
+    try {
+        ({ plaintext } = await flattenedDecrypt(encKey.jwe, encoder.encode(passphrase)));
+    } catch (error: any) {
+        throw new Error(`Unable to decrypt key ${encKey.kid}, the passphrase may be incorrect`);
+    }
+
+    const privKey = PrivateKey.check(JSON.parse(decoder.decode(plaintext)));
+    if (privKey.kid !== encKey.kid) throw new Error(`Decrypted key ${privKey.kid} does not match ${encKey.kid}`);
+
+    return privKey;
+}
+
+/**
+ * Check whether a parsed key file is an encrypted key.
+ *
+ * @param key parsed key file
+ * @returns boolean based on match
+ */
+function isEncryptedKey(key: any): boolean {
+    return runtypeCheck(key, EncryptedKey);
+}
+
+/**
+ * Set the passphrase used to unlock encrypted keys for the rest of the process.
+ *
+ * @param passphrase passphrase to use
+ */
+function setPassphrase(passphrase: string) {
+    passphraseCache = passphrase.replace(/\r?\n$/, '');
+}
+
+/**
+ * Get the passphrase used to unlock encrypted keys.
+ * Sources in order are a previously set passphrase, ie read from STDIN by a command,
+ * the PSQR_PASSPHRASE process ENV var, and finally an interactive prompt.
+ * Without a terminal to prompt on an error is thrown instead.
+ *
+ * @param confirm ask for the passphrase twice if prompting
+ * @returns passphrase string
+ */
+async function getPassphrase(confirm = false): Promise<string> {
+    if (passphraseCache !== '') return passphraseCache;
+
+    const envPass = process.env[PASSPHRASE_VAR];
+    if (typeof envPass === 'string' && envPass !== '') {
+        setPassphrase(envPass);
+        return passphraseCache;
+    }
+
+    // fail instead of waiting on a prompt nobody can answer
+    if (process.stdin.isTTY !== true) throw new Error(`No passphrase provided and no terminal to prompt on, set ${PASSPHRASE_VAR} or pass it on STDIN`);
+
+    // prompt for passphrase if there is no other source
+    const questions = [{
+        type: 'password',
+        name: 'passphrase',
+        message: 'Enter the passphrase for your keys:',
+        mask: '*',
+        validate: (input: string) => input !== '' || 'Passphrase cannot be empty',
+    }];
+    if (confirm) {
+        questions.push({
+            type: 'password',
+            name: 'confirmation',
+            message: 'Confirm the passphrase:',
+            mask: '*',
+            validate: (input: string) => input !== '' || 'Passphrase cannot be empty',
+        });
+    }
+
+    const answers = await inquirer.prompt(questions);
+    if (confirm && answers.passphrase !== answers.confirmation) throw new Error('Passphrases do not match');
+
+    setPassphrase(answers.passphrase);
+    return passphraseCache;
+}
+
+export { encryptPrivateKey, decryptPrivateKey, isEncryptedKey, setPassphrase, getPassphrase }
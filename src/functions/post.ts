@@ -1,22 +1,26 @@
-import { importJWK, CompactSign } from 'jose';
+import { importJWK, CompactSign, compactVerify, FlattenedSign, flattenedVerify, decodeProtectedHeader, base64url } from 'jose';
 
 import { Static } from 'runtypes';
 
-import { generateInfoHash, parseKidKey } from './identity';
-import { Post, JwsPost, PostSkeleton } from '../types/post';
+import { checkKeyValidity, generateInfoHash, getDid, getIdentity, getKeyPair, isKeyRevoked, parseBareDid, parseKidKey, verifyKeyGrant } from './identity';
+import { Post, JwsPost, GeneralJwsPost, PostSkeleton } from '../types/post';
 import { Did, Identity, KeyPair } from '../types/identity';
 import { BroadcastConfig, DataResponse, ListResponse } from '../types/interfaces'
 import { concurrentPromises, handleRuntypeFail } from './utility';
+import { recordSignature } from './auditlog';
 import { getNetworkConfig } from './network';
+import { getNetworkSources, getTorrentContent } from './torrent';
+import { findPost, FoundPost } from './search';
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { ValueFilters } from '../types/base-types';
+import { KID, ValueFilters } from '../types/base-types';
 import { NetworkConfig } from '../types/network';
 const http = require('http');
 const https = require('https');
 const ogs = require('open-graph-scraper');
 
 const encoder = new TextEncoder();
+const decoder = new TextDecoder();
 
 export interface PutConfig extends BroadcastConfig {
     hash: string;
@@ -28,10 +32,53 @@ export interface JWSData {
     hash: string;
 }
 
+/** Co-signed JWS Data including Hash */
+export interface CosignedJWSData {
+    jws: Static<typeof GeneralJwsPost>;
+    hash: string;
+}
+
 export interface JWSResponse extends DataResponse {
     data?: JWSData;
 }
 
+export interface CosignResponse extends DataResponse {
+    data?: CosignedJWSData;
+}
+
+/** Post Reference Types */
+export type ReferenceType = 'reply' | 'amplify' | 'like';
+
+/** Key to sign with and Broadcaster(s) to publish to, including a post to reference */
+export interface PublishConfig extends BroadcastConfig {
+    kid: string;
+    reference?: {
+        type: ReferenceType;
+        infoHash: string;
+    };
+}
+
+/** Key to sign with, Broadcaster(s) to publish to, and Indexer(s) to find the referenced post with */
+export interface PublishReferenceConfig extends BroadcastConfig {
+    kid: string;
+    indexer: string;
+    force: boolean;
+}
+
+/** Fields of a post that references another post, empty title and canonical url are taken from the referenced post */
+export interface ReferenceFields {
+    body: string;
+    description: string;
+    lang: string;
+    title: string;
+    image: string;
+    canonicalUrl: string;
+}
+
+export interface PublishPostResponse extends ListResponse {
+    data?: JWSData;
+}
+
 interface PublishRequestConfig extends AxiosRequestConfig {
     id?: string;
 }
@@ -54,6 +101,10 @@ async function createJWS(content: string, keyPair: Static<typeof KeyPair>, postD
         // check keys
         if (keyPair?.private === null) return { success: false, message: 'No keys available to use' };
 
+        // refuse keys outside of their validity period
+        const validity = checkKeyValidity(keyPair.public || keyPair.private);
+        if (validity.success === false) return { success: false, message: validity.message };
+
         // get key from JWK and validate content as Post
         let hash = '';
         const key = await importJWK(keyPair.private);
@@ -65,10 +116,11 @@ async function createJWS(content: string, keyPair: Static<typeof KeyPair>, postD
         // generate JWS token and include kid as header
         const token = await new CompactSign(encoder.encode(content))
             .setProtectedHeader({
-                alg: 'ES384',
+                alg: keyPair.private.alg,
                 kid: keyPair.kid,
             })
             .sign(key);
+        recordSignature(keyPair.kid, postData ? 'post' : 'jws', content, hash);
 
         const jws = JwsPost.check({
             token,
@@ -90,6 +142,8 @@ async function createJWS(content: string, keyPair: Static<typeof KeyPair>, postD
 
 /**
  * Assembles a Post object from a PostSkeleton.
+ * The trackers and web seeds of its torrent are taken from the default networks.
+ * Attachment digests are included in the signed info and their files follow the post info.
  *
  * @param skeleton post skeleton object
  * @param identity obj containing identity to use
@@ -112,6 +166,8 @@ async function createPost(skeleton: Static<typeof PostSkeleton>, identity: Stati
 
         // get key, keyId, and DID from identity
         const keyPair = identity.keyPairs[0];
+        const validity = checkKeyValidity(keyPair.public || keyPair.private);
+        if (validity.success === false) return { success: false, message: validity.message };
         const key = await importJWK(keyPair.private);
         const keyId = parseKidKey(keyPair.kid);
         if (keyId === false) return { success: false, message: 'Unable to parse key name' };
@@ -122,13 +178,9 @@ async function createPost(skeleton: Static<typeof PostSkeleton>, identity: Stati
             infoHash: '',
             created: Date.now(),
             createdBy: didDoc.id,
-            urlList: [''],
-            announce: [''],
-            files: [{
-                name: '',
-                offset: 0,
-                length: '',
-            }],
+            urlList: [],
+            announce: [],
+            files: [],
             provenance: {
                 jwk: keyPair.public,
                 signature: '',
@@ -146,11 +198,12 @@ async function createPost(skeleton: Static<typeof PostSkeleton>, identity: Stati
                         image: skeleton.image,
                         canonicalUrl: skeleton.canonicalUrl,
                         body: skeleton.body,
+                        ...(skeleton.attachments?.length ? { attachments: skeleton.attachments } : {}),
                         references: {
                             content: {
                                 reply: skeleton.reply || '',
-                                amplify: '',
-                                like: '',
+                                amplify: skeleton.amplify || '',
+                                like: skeleton.like || '',
                             },
                         },
                     },
@@ -162,13 +215,26 @@ async function createPost(skeleton: Static<typeof PostSkeleton>, identity: Stati
         post.infoHash = generateInfoHash(post.info);
         post.name = post.infoHash + '.torrent';
 
+        // describe the torrent of the post and where to get it, attachments follow the post info
+        const { name, content } = getTorrentContent(post);
+        post.files = [{ name, offset: 0, length: String(content.length) }];
+        let offset = content.length;
+        (skeleton.attachments || []).forEach(a => {
+            post.files.push({ name: a.name, offset, length: String(a.length) });
+            offset += a.length;
+        });
+        const sources = await getNetworkSources();
+        post.announce = sources.announce;
+        post.urlList = sources.urlList;
+
         // calculate signature
         post.provenance.signature = await new CompactSign(encoder.encode(JSON.stringify(post.info)))
             .setProtectedHeader({
-                alg: 'ES384',
+                alg: keyPair.private.alg,
                 kid: keyPair.kid,
             })
             .sign(key);
+        recordSignature(keyPair.kid, 'provenance', JSON.stringify(post.info), post.infoHash);
 
         return {
             success: true,
@@ -184,6 +250,344 @@ async function createPost(skeleton: Static<typeof PostSkeleton>, identity: Stati
     }
 }
 
+/**
+ * Assembles a Post that references another post from a PostSkeleton.
+ * The reference of the specified type is set to psqr:{infoHash}.
+ *
+ * @param type reference field to set
+ * @param infoHash infoHash of the referenced post
+ * @param skeleton post skeleton object
+ * @param identity obj containing identity to use
+ * @returns Success or Failure Message Response with post as data
+ */
+async function createReferencePost(type: ReferenceType, infoHash: string, skeleton: Static<typeof PostSkeleton>, identity: Static<typeof Identity>): Promise<DataResponse> {
+    if (/^[\da-f]{40}$/i.test(infoHash) === false) return { success: false, message: `Invalid infoHash ${infoHash} to ${type}` };
+
+    return createPost({ ...skeleton, [type]: `psqr:${infoHash.toLowerCase()}` }, identity);
+}
+
+/**
+ * Create a post from a PostSkeleton, sign it, and publish it to Broadcaster(s).
+ * If a reference is specified the post references that post instead.
+ * If no kid is specified, the default identity will be used.
+ *
+ * @param skeleton post skeleton object
+ * @param config kid to sign with, broadcaster(s) to put to, and optional reference
+ * @param lgr logger function to log activity
+ * @returns outcome of PUT request including the JWS and hash of the post as data
+ */
+async function publishPost(skeleton: Static<typeof PostSkeleton>, config: PublishConfig, lgr: Function = () => { /* no log */ }): Promise<PublishPostResponse> {
+    // get identity and keyPair objects
+    const idResp = await getIdentity(config.kid);
+    if (idResp.success === false) return { success: false, message: 'Unable to get identity because: ' + idResp.message, items: [] };
+    const kpResp = await getKeyPair(config.kid);
+    if (kpResp.success === false) return { success: false, message: 'Unable to get KeyPair because: ' + kpResp.message, items: [] };
+
+    const ref = config.reference;
+    const resp = typeof ref === 'undefined' ?
+        await createPost(skeleton, idResp.identity) :
+        await createReferencePost(ref.type, ref.infoHash, skeleton, idResp.identity);
+    if (resp.success === false) return { success: false, message: resp.message, items: [] };
+    lgr(resp.message);
+
+    const respJWS = await createJWS(JSON.stringify(resp.data), kpResp.keyPairs[0]);
+    if (respJWS.success === false || typeof respJWS.data === 'undefined') return { success: false, message: respJWS.message, items: [] };
+    lgr(respJWS.message);
+
+    const putConfig: PutConfig = {
+        hash: respJWS.data.hash,
+        broadcaster: config.broadcaster,
+        selfSigned: config.selfSigned,
+    }
+    const pResp = await putPost(respJWS.data.jws, putConfig, lgr);
+
+    return { ...pResp, data: respJWS.data };
+}
+
+/**
+ * Find a post by its infoHash or canonical url on the Indexer(s), then create a post that references it,
+ * sign it, and publish it to Broadcaster(s).
+ * The title and canonical url of the referenced post are used unless they are specified,
+ * replies prefix the title with Re:. The key must be granted publish unless forced.
+ *
+ * @param type reference field to set
+ * @param target infoHash or canonical url of the post to reference
+ * @param fields fields of the new post
+ * @param config kid to sign with, broadcaster(s) to put to, indexer(s) to search, and whether to skip the grant check
+ * @param lgr logger function to log activity
+ * @returns outcome of PUT request including the JWS and hash of the post as data
+ */
+async function publishReferencePost(type: ReferenceType, target: string, fields: ReferenceFields, config: PublishReferenceConfig, lgr: Function = () => { /* no log */ }): Promise<PublishPostResponse> {
+    // ensure the key is allowed to publish before signing
+    if (config.force === false) {
+        const gResp = await verifyKeyGrant(config.kid);
+        if (gResp.success === false) return { success: false, message: gResp.message + ', use --force to sign anyway', items: [] };
+    }
+
+    const fResp = await findPost(target, {
+        indexer: config.indexer,
+        selfSigned: config.selfSigned,
+    });
+    if (fResp.success === false) return { success: false, message: fResp.message, items: [] };
+    const found: FoundPost = fResp.data;
+    lgr(fResp.message);
+
+    // indexed posts may lack the fields a post requires
+    let title = fields.title;
+    if (title === '' && found.title !== '') title = type === 'reply' ? `Re: ${found.title}` : found.title;
+    if (title === '') return { success: false, message: `Post with hash ${found.infoHash} has no title, specify one with --title`, items: [] };
+    const canonicalUrl = fields.canonicalUrl || found.canonicalUrl;
+    if (canonicalUrl === '') return { success: false, message: `Post with hash ${found.infoHash} has no canonical url, specify one with --canonicalUrl`, items: [] };
+
+    let skeleton: Static<typeof PostSkeleton>;
+    try {
+        skeleton = PostSkeleton.check({
+            ...fields,
+            publishDate: Date.now(),
+            title,
+            geo: '',
+            politicalSubdivision: '',
+            canonicalUrl,
+        });
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg, items: [] };
+    }
+
+    return publishPost(skeleton, {
+        kid: config.kid,
+        broadcaster: config.broadcaster,
+        selfSigned: config.selfSigned,
+        reference: { type, infoHash: found.infoHash },
+    }, lgr);
+}
+
+/**
+ * Add a signature to a signed post so it has multiple signers.
+ * The result is a JWS in General JSON Serialization
+ * with every signature over the same payload.
+ *
+ * @param jws signed post as a compact or General JSON JWS
+ * @param keyPair obj containing keys to sign with
+ * @returns Success or Failure Message Response and co-signed JWS
+ */
+async function cosignPost(jws: Static<typeof JwsPost> | Static<typeof GeneralJwsPost>, keyPair: Static<typeof KeyPair>): Promise<CosignResponse> {
+    // refuse keys outside of their validity period
+    const validity = checkKeyValidity(keyPair.public || keyPair.private);
+    if (validity.success === false) return { success: false, message: validity.message };
+
+    try {
+        const general = toGeneralJws(JwsPost.Or(GeneralJwsPost).check(jws));
+
+        // ensure the key hasn't signed already
+        const signers = general.signatures.map(sig => decodeProtectedHeader(sig).kid);
+        if (signers.includes(keyPair.kid)) return { success: false, message: `Post is already signed by ${keyPair.kid}` };
+
+        // sign the existing payload
+        const content = decoder.decode(base64url.decode(general.payload));
+        const post = Post.check(JSON.parse(content));
+        const flattened = await new FlattenedSign(encoder.encode(content))
+            .setProtectedHeader({
+                alg: keyPair.private.alg,
+                kid: keyPair.kid,
+            })
+            .sign(await importJWK(keyPair.private));
+        if (flattened.payload !== general.payload) throw new Error('Signed payload does not match the payload of the post');
+        recordSignature(keyPair.kid, 'cosign', content, post.infoHash);
+
+        const cosigned = GeneralJwsPost.check({
+            payload: general.payload,
+            signatures: [
+                ...general.signatures,
+                { protected: flattened.protected, signature: flattened.signature },
+            ],
+        });
+
+        return {
+            success: true,
+            message: `Successfully co-signed post with ${keyPair.kid}`,
+            data: { jws: cosigned, hash: post.infoHash },
+        }
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return {
+            success: false,
+            message: msg,
+        }
+    }
+}
+
+/**
+ * Convert a compact JWS to General JSON Serialization.
+ *
+ * @param jws compact or General JSON JWS
+ * @returns JWS in General JSON Serialization
+ */
+function toGeneralJws(jws: Static<typeof JwsPost> | Static<typeof GeneralJwsPost>): Static<typeof GeneralJwsPost> {
+    if (GeneralJwsPost.guard(jws)) return jws;
+
+    const [header, payload, signature] = jws.token.split('.');
+
+    return { payload, signatures: [{ protected: header, signature }] };
+}
+
+/**
+ * Extract the Post from the payload of a JWS without verifying it.
+ *
+ * @param jws JwsPost obj or GeneralJwsPost obj
+ * @returns post obj, throws if the payload is not a valid post
+ */
+function decodeJwsPost(jws: Static<typeof JwsPost> | Static<typeof GeneralJwsPost>): Static<typeof Post> {
+    const { payload } = toGeneralJws(jws);
+
+    return Post.check(JSON.parse(decoder.decode(base64url.decode(payload))));
+}
+
+/**
+ * Verify the signatures and hashes of a Post.
+ * If a JwsPost is provided the outer JWS is verified against the key
+ * of its kid header and the Post is taken from its payload.
+ * Co-signed posts have every signature verified against the key of its kid,
+ * and every signer is reported even if the signature of another fails.
+ * Each check is returned as a separate item so partial failures can be reported.
+ *
+ * @param content JwsPost obj, GeneralJwsPost obj, or Post obj to verify
+ * @returns Success or Failure Message Response including the outcome of each check
+ */
+async function verifyPost(content: Static<typeof JwsPost> | Static<typeof GeneralJwsPost> | Static<typeof Post>): Promise<ListResponse> {
+    const items: DataResponse[] = [];
+
+    let post: Static<typeof Post>;
+    const signers: string[] = [];
+    try {
+        if (JwsPost.guard(content) || GeneralJwsPost.guard(content)) {
+            // verify each signature over the payload, a failed signer doesn't stop the others
+            const general = toGeneralJws(content);
+            for (let i = 0; i < general.signatures.length; i++) {
+                const sig = general.signatures[i];
+                let kid = `signature ${i + 1}`;
+                try {
+                    // resolve the key that made the signature
+                    kid = KID.check(decodeProtectedHeader(sig).kid);
+                    const keyResp = await resolvePublicKey(kid);
+                    items.push(keyResp);
+                    if (keyResp.success === false) continue;
+
+                    await flattenedVerify({ payload: general.payload, ...sig }, await importJWK(keyResp.data));
+                    items.push({ success: true, message: `JWS signature is valid for ${kid}`, data: kid });
+                    signers.push(kid);
+                } catch (error: any) {
+                    const msg = handleRuntypeFail(error);
+                    items.push({ success: false, message: `JWS signature is invalid for ${kid} because: ${msg}`, data: kid });
+                }
+            }
+
+            // extract post from payload
+            post = decodeJwsPost(general);
+        } else {
+            post = Post.check(content);
+        }
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        items.push({ success: false, message: 'Unable to read post because: ' + msg });
+        return { success: false, message: msg, items };
+    }
+
+    // ensure provenance key is listed in the DID doc of its kid
+    const jwk = post.provenance.jwk;
+    const provResp = await resolvePublicKey(jwk.kid);
+    if (provResp.success && (provResp.data.x !== jwk.x || provResp.data.y !== jwk.y)) {
+        provResp.success = false;
+        provResp.message = `Provenance key ${jwk.kid} does not match the key in the DID doc`;
+    }
+    items.push(provResp);
+
+    // verify provenance signature over info
+    try {
+        const { payload, protectedHeader } = await compactVerify(post.provenance.signature, await importJWK(jwk));
+        if (protectedHeader.kid !== jwk.kid) throw new Error(`Signature kid ${protectedHeader.kid} does not match provenance key ${jwk.kid}`);
+        if (decoder.decode(payload) !== JSON.stringify(post.info)) throw new Error('Signed payload does not match post info');
+
+        items.push({ success: true, message: `Provenance signature is valid for ${jwk.kid}`, data: jwk.kid });
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        items.push({ success: false, message: 'Provenance signature is invalid because: ' + msg });
+    }
+
+    // reject signatures made by keys after they were revoked
+    if (signers.includes(jwk.kid) === false) signers.push(jwk.kid);
+    for (let i = 0; i < signers.length; i++) {
+        items.push(await checkKeyRevocation(signers[i], post.created));
+    }
+
+    // recompute infoHash
+    const infoHash = generateInfoHash(post.info);
+    if (infoHash === post.infoHash && post.name === infoHash + '.torrent') {
+        items.push({ success: true, message: `infoHash ${infoHash} matches post info`, data: infoHash });
+    } else {
+        items.push({ success: false, message: `infoHash ${post.infoHash} does not match calculated infoHash ${infoHash}`, data: infoHash });
+    }
+
+    // evaluate verification success
+    const passed = items.filter(i => i.success);
+    const ratio = passed.length + '/' + items.length;
+    if (passed.length < items.length) {
+        return { success: false, message: `Verification failed for post with hash ${post.infoHash}. ${ratio} checks passed.`, items };
+    }
+
+    return { success: true, message: `Successfully verified post with hash ${post.infoHash}. ${ratio} checks passed.`, items };
+}
+
+/**
+ * Resolve the DID doc of a KID and retrieve the matching public key.
+ *
+ * @param kid did with trailing key name
+ * @returns Success or Failure Message Response including the public key as data
+ */
+async function resolvePublicKey(kid: string): Promise<DataResponse> {
+    const bdid = parseBareDid(kid);
+    if (bdid === false) return { success: false, message: `Unable to parse bare did from kid ${kid}` };
+
+    const dResp = await getDid(bdid);
+    if (dResp.success === false) {
+        return { success: false, message: `Unable to resolve DID doc for ${kid} because: ${dResp.error.message}` };
+    }
+
+    const key = dResp.didDoc.psqr.publicKeys.find(k => k.kid === kid);
+    if (typeof key === 'undefined') return { success: false, message: `Key ${kid} is not listed in the DID doc publicKeys` };
+
+    return { success: true, message: `Key ${kid} is listed in the DID doc publicKeys`, data: key };
+}
+
+/**
+ * Check whether a key had been revoked in its DID doc at the time something was signed.
+ * Keys revoked since then still pass, but the message notes when they were revoked.
+ *
+ * @param kid did with trailing key name
+ * @param time timestamp in ms of when the signature was made
+ * @returns Success or Failure Message Response
+ */
+async function checkKeyRevocation(kid: string, time: number): Promise<DataResponse> {
+    const bdid = parseBareDid(kid);
+    if (bdid === false) return { success: false, message: `Unable to parse bare did from kid ${kid}` };
+
+    const dResp = await getDid(bdid);
+    if (dResp.success === false) {
+        return { success: false, message: `Unable to resolve DID doc for ${kid} because: ${dResp.error.message}` };
+    }
+
+    if (isKeyRevoked(dResp.didDoc, kid, time)) {
+        return { success: false, message: `Key ${kid} was revoked before the post was created` };
+    }
+
+    const revocation = (dResp.didDoc.psqr.revoked || []).find(r => r.kid === kid);
+    if (typeof revocation !== 'undefined') {
+        return { success: true, message: `Key ${kid} was not revoked when the post was created, but was revoked at ${new Date(revocation.revoked).toISOString()}` };
+    }
+
+    return { success: true, message: `Key ${kid} was not revoked when the post was created` };
+}
+
 /**
  * Create a post object using the web page as its url.
  * OG data is pulled and used to fill in the post information.
@@ -276,9 +680,9 @@ async function createUrlPost(url: string, identity: Static<typeof Identity>, fil
  * @param postData array of objects containing the hash and the JWS
  * @param config base post config to change the hash of for each post
  * @param lgr optional logger function
- * @returns Array of list responses for each post
+ * @returns Array of list responses for each post in the same order as postData
  */
-async function putMultiplePosts(postData: JWSData[], config: PutConfig, lgr: Function = () => { /* no log */ }): Promise<ListResponse[]> {
+async function putMultiplePosts(postData: Array<JWSData | CosignedJWSData>, config: PutConfig, lgr: Function = () => { /* no log */ }): Promise<ListResponse[]> {
     // setup axios with keepalive
     const agentConfig: any = {
         keepAlive: true,
@@ -298,20 +702,31 @@ async function putMultiplePosts(postData: JWSData[], config: PutConfig, lgr: Fun
         maxContentLength: 50 * 1000 * 1000,
     });
 
-    // create request promises
-    const poolParams = postData.map(p => {
+    // create request promises, indexed since they settle out of order
+    const poolParams = postData.map((p, i) => {
         const pc: PutConfig = {
             hash: p.hash,
             broadcaster: config.broadcaster,
             selfSigned: config.selfSigned,
         };
 
-        return [p.jws, pc, lgr, ax]
+        return [i, p.jws, pc, lgr, ax]
     });
+    const indexedPut = async (i: number, jws: Static<typeof JwsPost> | Static<typeof GeneralJwsPost>, pc: PutConfig, l: Function, a: AxiosInstance) => {
+        return { i, resp: await putPost(jws, pc, l, a) };
+    }
+
+    const allPromises: { i: number; resp: ListResponse }[] = await concurrentPromises(poolParams, indexedPut, 100);
 
-    const allPromises = await concurrentPromises(poolParams, putPost, 100);
+    // restore order of posts, any that threw are failures
+    const responses: ListResponse[] = postData.map(p => {
+        return { success: false, message: `Failed to publish post with hash ${p.hash}`, items: [] }
+    });
+    allPromises.forEach(p => {
+        responses[p.i] = p.resp;
+    });
 
-    return allPromises;
+    return responses;
 }
 
 /**
@@ -319,13 +734,13 @@ async function putMultiplePosts(postData: JWSData[], config: PutConfig, lgr: Fun
  * Data parameter must be the complete string that is to be
  * sent to the Broadcaster.
  *
- * @param jwsPost JwsPost obj to be published to broadcaster
+ * @param jwsPost JwsPost or co-signed GeneralJwsPost obj to be published to broadcaster
  * @param config general request config including broadcaster(s)
  * @param lgr logger function to log activity
  * @param ax custom instance of axios to use instead of default
  * @returns outcome of PUT request
  */
-async function putPost(jwsPost: Static<typeof JwsPost>, config: PutConfig, lgr: Function = () => { /* no log */ }, ax: AxiosInstance | false = false): Promise<ListResponse> {
+async function putPost(jwsPost: Static<typeof JwsPost> | Static<typeof GeneralJwsPost>, config: PutConfig, lgr: Function = () => { /* no log */ }, ax: AxiosInstance | false = false): Promise<ListResponse> {
     const hash = config.hash;
     const failMsg = `Publish for post with hash ${config.hash} failed because: `
 
@@ -357,7 +772,7 @@ async function putPost(jwsPost: Static<typeof JwsPost>, config: PutConfig, lgr:
         }
 
         // ensure post data is valid
-        JwsPost.check(jwsPost);
+        JwsPost.Or(GeneralJwsPost).check(jwsPost);
     } catch (error: any) {
         const msg = handleRuntypeFail(error);
         lgr(failMsg + msg);
@@ -454,7 +869,7 @@ async function putPost(jwsPost: Static<typeof JwsPost>, config: PutConfig, lgr:
  * @returns filtered post skeleton
  */
 function filterPostValues(skeleton: Static<typeof PostSkeleton>, filters: Static<typeof ValueFilters>): Static<typeof PostSkeleton> {
-    let key: keyof Static<typeof PostSkeleton>;
+    let key: keyof Static<typeof ValueFilters>;
     for (key in filters) {
         if (Object.prototype.hasOwnProperty.call(filters, key)) {
             const list = filters[key];
@@ -480,4 +895,4 @@ function filterPostValues(skeleton: Static<typeof PostSkeleton>, filters: Static
     return skeleton;
 }
 
-export { putPost, putMultiplePosts, createJWS, createPost, createUrlPost };
+export { putPost, putMultiplePosts, createJWS, cosignPost, createPost, createReferencePost, publishPost, publishReferencePost, createUrlPost, decodeJwsPost, verifyPost };
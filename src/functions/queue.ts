@@ -0,0 +1,306 @@
+import { readFileSync, readdirSync, existsSync, mkdirSync, writeFileSync, openSync, writeSync, closeSync, statSync, unlinkSync } from 'fs';
+import { Static } from 'runtypes';
+
+import { decodeJwsPost, putMultiplePosts, PutConfig } from './post';
+import { generateLogger, handleRuntypeFail } from './utility';
+import { JwsPost, GeneralJwsPost } from '../types/post';
+import { QueueItem, QueueStatus } from '../types/queue';
+import { DataResponse, ListResponse } from '../types/interfaces';
+
+const homedir = require('os').homedir();
+
+const QUEUE_PATH = `${homedir}/.config/psqr/queue`;
+const LOCK_PATH = `${QUEUE_PATH}/run.lock`;
+
+/** Time in ms after which the lock of a queue run that never finished is taken over */
+const LOCK_TTL = 30 * 60 * 1000;
+
+export const queueLgr = generateLogger(`${QUEUE_PATH}/log`);
+
+/** Options for publishing due posts */
+export interface QueueRunConfig {
+    selfSigned?: boolean;
+    retry?: boolean;
+    time?: number;
+}
+
+/**
+ * Get the local path of a scheduled post.
+ *
+ * @param hash infoHash of the post
+ * @returns path to queue item file
+ */
+function getQueueItemPath(hash: string): string {
+    return `${QUEUE_PATH}/${hash}.json`;
+}
+
+/**
+ * Get the broadcasters a queue item still needs to be published to.
+ * Partially published posts only go to the broadcasters that failed last time.
+ *
+ * @param item queue item to publish
+ * @returns colon separated list of broadcaster domains, empty for the defaults
+ */
+function getPendingBroadcaster(item: Static<typeof QueueItem>): string {
+    if (item.status !== 'partial') return item.broadcaster;
+
+    return item.results.filter(r => r.success === false).map(r => r.broadcaster).join(':');
+}
+
+/**
+ * Take the lock of the queue so only one run publishes at a time.
+ * Locks older than LOCK_TTL are left by runs that never finished and are taken over.
+ *
+ * @returns boolean based on whether the lock was taken
+ */
+function lockQueue(): boolean {
+    if (existsSync(QUEUE_PATH) === false) mkdirSync(QUEUE_PATH, { recursive: true });
+
+    for (let i = 0; i < 2; i++) {
+        try {
+            const fd = openSync(LOCK_PATH, 'wx');
+            writeSync(fd, String(process.pid));
+            closeSync(fd);
+
+            return true;
+        } catch (error: any) {
+            if (error.code !== 'EEXIST' || Date.now() - statSync(LOCK_PATH).mtimeMs < LOCK_TTL) return false;
+            unlinkSync(LOCK_PATH);
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Release the lock of the queue.
+ */
+function unlockQueue() {
+    try {
+        unlinkSync(LOCK_PATH);
+    } catch (error: any) {
+        // lock was already removed
+    }
+}
+
+/**
+ * Save a queue item, replacing any previous version of it.
+ *
+ * @param item queue item to save
+ * @returns Success or Failure Message Response including the item
+ */
+function saveQueueItem(item: Static<typeof QueueItem>): DataResponse {
+    try {
+        QueueItem.check(item);
+
+        if (existsSync(QUEUE_PATH) === false) mkdirSync(QUEUE_PATH, { recursive: true });
+        writeFileSync(getQueueItemPath(item.hash), JSON.stringify(item));
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+
+    return { success: true, message: `Saved scheduled post with hash ${item.hash}`, data: item };
+}
+
+/**
+ * Get a scheduled post by its infoHash or a unique prefix of it.
+ *
+ * @param hash infoHash of the post or a prefix of it
+ * @returns Success or Failure Message Response including the item
+ */
+function getQueueItem(hash: string): DataResponse {
+    const matches = listQueueItems().filter(i => i.hash.startsWith(hash.toLowerCase()));
+    if (hash === '' || matches.length === 0) return { success: false, message: `No scheduled post found with hash ${hash}` };
+    if (matches.length > 1) return { success: false, message: `Hash ${hash} matches ${matches.length} scheduled posts, use more of the hash` };
+
+    return { success: true, message: `Found scheduled post with hash ${matches[0].hash}`, data: matches[0] };
+}
+
+/**
+ * List scheduled posts, ordered by when they are to be published.
+ *
+ * @param statuses only list posts with these statuses, all if empty
+ * @returns list of queue items
+ */
+function listQueueItems(statuses: Static<typeof QueueStatus>[] = []): Static<typeof QueueItem>[] {
+    if (existsSync(QUEUE_PATH) === false) return [];
+
+    const items: Static<typeof QueueItem>[] = [];
+    readdirSync(QUEUE_PATH).filter(f => f.endsWith('.json')).forEach(f => {
+        try {
+            items.push(QueueItem.check(JSON.parse(readFileSync(`${QUEUE_PATH}/${f}`, 'utf-8'))));
+        } catch (error: any) {
+            // skip corrupted items
+        }
+    });
+
+    return items
+        .filter(i => statuses.length === 0 || statuses.includes(i.status))
+        .sort((a, b) => a.publishAt - b.publishAt);
+}
+
+/**
+ * Add a signed post to the queue to be published at a later time.
+ * The infoHash is taken from the post in the JWS payload.
+ *
+ * @param jws signed post as a JwsPost obj or GeneralJwsPost obj
+ * @param publishAt timestamp in ms to publish the post at
+ * @param broadcaster colon separated list of broadcaster domains, empty for the defaults at publish time
+ * @param force replace an item of the same post that is already in the queue, losing its results
+ * @returns Success or Failure Message Response including the item
+ */
+function schedulePost(jws: Static<typeof JwsPost> | Static<typeof GeneralJwsPost>, publishAt: number, broadcaster = '', force = false): DataResponse {
+    let hash: string;
+    try {
+        JwsPost.Or(GeneralJwsPost).check(jws);
+        hash = decodeJwsPost(jws).infoHash;
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: `Unable to read post from JWS because: ${msg}` };
+    }
+
+    // a post can only be in the queue once
+    const existing = getQueueItem(hash);
+    if (force === false && existing.success && existing.data.hash === hash) {
+        const item: Static<typeof QueueItem> = existing.data;
+        const state = item.status === 'pending' ? `scheduled for ${new Date(item.publishAt).toISOString()}` : item.status;
+        return { success: false, message: `Post with hash ${hash} is already ${state} in the queue, use --force to replace it` };
+    }
+
+    const resp = saveQueueItem({
+        hash,
+        jws,
+        broadcaster,
+        publishAt,
+        created: Date.now(),
+        status: 'pending',
+        attempts: 0,
+        results: [],
+    });
+    if (resp.success === false) return resp;
+
+    return { success: true, message: `Scheduled post with hash ${hash} for ${new Date(publishAt).toISOString()}`, data: resp.data };
+}
+
+/**
+ * Cancel a pending scheduled post, it is kept with the cancelled status.
+ *
+ * @param hash infoHash of the post or a unique prefix of it
+ * @returns Success or Failure Message Response including the item
+ */
+function cancelScheduledPost(hash: string): DataResponse {
+    const resp = getQueueItem(hash);
+    if (resp.success === false) return resp;
+
+    const item: Static<typeof QueueItem> = resp.data;
+    if (item.status !== 'pending') return { success: false, message: `Post with hash ${item.hash} is ${item.status} and can not be cancelled` };
+
+    const sResp = saveQueueItem({ ...item, status: 'cancelled' });
+    if (sResp.success === false) return sResp;
+
+    return { success: true, message: `Cancelled scheduled post with hash ${item.hash}`, data: sResp.data };
+}
+
+/**
+ * Publish all scheduled posts that are due and record the outcome.
+ * Posts are published together to each set of broadcasters.
+ * Failed and partially published posts are only published again if retry is specified,
+ * partially published posts are only sent to the broadcasters that failed.
+ * Nothing is published while another run holds the lock of the queue.
+ *
+ * @param config whether to allow self-signed certs, retry failed posts, and the time to publish up to
+ * @param lgr optional logger function
+ * @returns Success or Failure Message Response including each updated item
+ */
+async function runQueue(config: QueueRunConfig = {}, lgr: Function = () => { /* no log */ }): Promise<ListResponse> {
+    if (lockQueue() === false) {
+        const message = 'Another queue run is in progress';
+        lgr(message);
+        return { success: true, message, items: [] };
+    }
+
+    try {
+        return await publishDueItems(config, lgr);
+    } finally {
+        unlockQueue();
+    }
+}
+
+/**
+ * Publish all scheduled posts that are due, the queue must be locked.
+ *
+ * @param config whether to allow self-signed certs, retry failed posts, and the time to publish up to
+ * @param lgr logger function
+ * @returns Success or Failure Message Response including each updated item
+ */
+async function publishDueItems(config: QueueRunConfig, lgr: Function): Promise<ListResponse> {
+    const time = config.time || Date.now();
+    const statuses: Static<typeof QueueStatus>[] = config.retry === true ? ['pending', 'failed', 'partial'] : ['pending'];
+    const due = listQueueItems(statuses).filter(i => i.publishAt <= time);
+    if (due.length === 0) return { success: true, message: 'No scheduled posts are due', items: [] };
+
+    lgr(`Publishing ${due.length} scheduled posts`, true);
+
+    // group posts by the broadcasters they still need to go to
+    const groups = new Map<string, Static<typeof QueueItem>[]>();
+    due.forEach(i => {
+        const broadcaster = getPendingBroadcaster(i);
+        groups.set(broadcaster, [...(groups.get(broadcaster) || []), i]);
+    });
+
+    const items: DataResponse[] = [];
+    for (const [broadcaster, group] of groups) {
+        const pc: PutConfig = {
+            hash: '',
+            broadcaster,
+            selfSigned: config.selfSigned,
+        }
+        const postData = group.map(i => {
+            return JwsPost.guard(i.jws) ? { jws: i.jws, hash: i.hash } : { jws: GeneralJwsPost.check(i.jws), hash: i.hash }
+        });
+        const pubResp = await putMultiplePosts(postData, pc, lgr);
+
+        // record the outcome of each post
+        group.forEach((item, i) => {
+            const resp = pubResp[i];
+            const sent = resp.items.map(r => {
+                return {
+                    broadcaster: r.message,
+                    success: r.success,
+                    message: r.success ? 'Published' : String(r.data),
+                }
+            });
+
+            // keep the broadcasters a partial post was already published to
+            const kept = item.status === 'partial' ? item.results.filter(r => r.success) : [];
+            const results = [...kept, ...(sent.length > 0 ? sent : [{ broadcaster, success: false, message: resp.message }])];
+            let status: Static<typeof QueueStatus> = 'failed';
+            if (results.every(r => r.success)) {
+                status = 'published';
+            } else if (results.some(r => r.success)) {
+                status = 'partial';
+            }
+
+            const updated: Static<typeof QueueItem> = {
+                ...item,
+                status,
+                attempts: item.attempts + 1,
+                results,
+                publishedAt: resp.success ? (item.publishedAt || Date.now()) : item.publishedAt,
+            };
+
+            const sResp = saveQueueItem(updated);
+            if (sResp.success === false) lgr(`Unable to save outcome of post with hash ${item.hash} because: ${sResp.message}`);
+            items.push({ success: resp.success, message: resp.message, data: updated });
+        });
+    }
+
+    const succeeded = items.filter(i => i.success);
+    const message = `${succeeded.length}/${items.length} scheduled posts were published.`;
+    lgr(message);
+
+    return { success: succeeded.length === items.length, message, items };
+}
+
+export { getQueueItem, listQueueItems, schedulePost, cancelScheduledPost, runQueue }
@@ -2,7 +2,7 @@ const axios = require('axios').default;
 const https = require('https');
 
 import { Static } from 'runtypes';
-import { ListResponse, IndexConfig } from '../types/interfaces'
+import { DataResponse, ListResponse, IndexConfig } from '../types/interfaces'
 import { NetworkConfig } from '../types/network';
 import { getNetworkConfig } from './network';
 import { handleRuntypeFail } from './utility';
@@ -11,6 +11,25 @@ export interface ESConfig extends IndexConfig {
     page: number;
 }
 
+/** Search result of a post returned by an Indexer */
+export interface SearchHit {
+    _id: string;
+    _source?: {
+        infoHash?: string;
+        canonicalUrl?: string;
+        title?: string;
+        [key: string]: any;
+    };
+}
+
+/** Post found on an Indexer */
+export interface FoundPost {
+    infoHash: string;
+    canonicalUrl: string;
+    title: string;
+    indexer: string;
+}
+
 /**
  * Search ElasticSearch Indices for specified string.
  * If no Indexers are specified, the default Indexers
@@ -107,4 +126,42 @@ async function searchES(query: string, config: ESConfig): Promise<ListResponse>
     });
 }
 
-export { searchES };
+/**
+ * Find a post on the network by its infoHash or canonical url.
+ * The Indexers are searched for the target and the results are
+ * matched on their document id, infoHash, and canonicalUrl.
+ *
+ * @param target infoHash or canonical url of the post
+ * @param config configuration for the Indexers to be searched
+ * @returns Success or Failure Message Response including the FoundPost as data
+ */
+async function findPost(target: string, config: IndexConfig): Promise<DataResponse> {
+    const resp = await searchES(target, { ...config, page: 1 });
+    if (resp.success === false) return { success: false, message: resp.message };
+
+    const items = resp.items.filter(i => i.success);
+    for (let i = 0; i < items.length; i++) {
+        const results: SearchHit[] = items[i].data?.data?.searchResults || [];
+        const hit = results.find(r => {
+            const source = r._source || {};
+            return r._id === target || source.infoHash === target || source.canonicalUrl === target;
+        });
+        if (typeof hit === 'undefined') continue;
+
+        const found: FoundPost = {
+            infoHash: hit._source?.infoHash || hit._id,
+            canonicalUrl: hit._source?.canonicalUrl || '',
+            title: hit._source?.title || '',
+            indexer: items[i].message,
+        }
+
+        return { success: true, message: `Found post with hash ${found.infoHash} on ${found.indexer}`, data: found };
+    }
+
+    const failed = resp.items.length - items.length;
+    const note = failed > 0 ? `, ${failed}/${resp.items.length} indexers failed` : '';
+
+    return { success: false, message: `Unable to find a post matching ${target}${note}` };
+}
+
+export { searchES, findPost };
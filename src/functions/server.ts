@@ -0,0 +1,118 @@
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createServer as createHttpsServer } from 'https';
+import { createHash } from 'crypto';
+
+import { listIdentities, parseDidType, parseDidUrl } from './identity';
+import { toW3cDid } from './w3c';
+
+/** Location and content of a hosted DID doc */
+export interface DidRoute {
+    did: string;
+    host: string;
+    path: string;
+    contentType: string;
+    body: string;
+}
+
+/** DID Server Options */
+export interface DidServerOptions {
+    w3c?: boolean;
+    cert?: string;
+    key?: string;
+}
+
+/**
+ * Get the routes of all stored identities that can be hosted.
+ * Each DID doc is served at the path parseDidUrl computes for it,
+ * did:key identities aren't hosted.
+ *
+ * @param w3c serve did:web docs as standard W3C DID docs
+ * @returns list of routes
+ */
+function getDidRoutes(w3c = false): DidRoute[] {
+    const routes: DidRoute[] = [];
+    listIdentities().forEach(didDoc => {
+        const url = parseDidUrl(didDoc.id);
+        if (url === false) return;
+
+        const { host, pathname } = new URL(url);
+        const web = parseDidType(didDoc.id) === 'web';
+        routes.push({
+            did: didDoc.id,
+            host,
+            path: pathname,
+            contentType: web ? 'application/did+json' : 'application/json',
+            body: JSON.stringify(web && w3c ? toW3cDid(didDoc) : didDoc),
+        });
+    });
+
+    return routes;
+}
+
+/**
+ * Create a server hosting all stored identities.
+ * Routes are looked up on every request so changes to identities are served right away.
+ * If multiple identities share a path the Host header is used to pick one.
+ * The server is HTTPS if a cert and key are provided.
+ *
+ * @param options w3c, cert, and key options
+ * @param lgr logger function to log requests
+ * @returns server that still needs to listen
+ */
+function createDidServer(options: DidServerOptions = {}, lgr: Function = () => { /* no log */ }): Server {
+    const handler = (req: IncomingMessage, res: ServerResponse) => {
+        const status = handleDidRequest(req, res, options.w3c === true);
+        lgr(`${req.method} ${req.headers.host || ''}${req.url} ${status}`);
+    };
+
+    if (typeof options.cert === 'string' && typeof options.key === 'string') {
+        return createHttpsServer({ cert: options.cert, key: options.key }, handler);
+    }
+
+    return createHttpServer(handler);
+}
+
+/**
+ * Respond to a request for a DID doc.
+ * Responses include an ETag and a matching If-None-Match results in a 304.
+ *
+ * @param req incoming request
+ * @param res server response
+ * @param w3c serve did:web docs as standard W3C DID docs
+ * @returns http status code of the response
+ */
+function handleDidRequest(req: IncomingMessage, res: ServerResponse, w3c: boolean): number {
+    const send = (status: number, body: string, headers: { [key: string]: string } = {}) => {
+        res.writeHead(status, headers);
+        res.end(req.method === 'HEAD' ? undefined : body);
+
+        return status;
+    };
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') return send(405, 'Method not allowed', { Allow: 'GET, HEAD' });
+
+    // find routes matching the path, then narrow down by host
+    let path: string;
+    try {
+        path = decodeURIComponent((req.url || '/').split('?')[0]);
+    } catch (error: any) {
+        return send(400, 'Malformed request path');
+    }
+    const host = (req.headers.host || '').split(':')[0];
+    let routes = getDidRoutes(w3c).filter(r => r.path === path);
+    if (routes.length > 1) routes = routes.filter(r => r.host === host);
+    if (routes.length !== 1) return send(404, 'DID not found');
+
+    const route = routes[0];
+    const etag = `"${createHash('sha256').update(route.body).digest('base64')}"`;
+    const headers = {
+        'Content-Type': route.contentType,
+        ETag: etag,
+        'Access-Control-Allow-Origin': '*',
+    };
+    if (req.headers['if-none-match'] === etag) return send(304, '', headers);
+
+    return send(200, route.body, headers);
+}
+
+export { getDidRoutes, createDidServer }
@@ -0,0 +1,159 @@
+import { randomBytes } from 'crypto';
+import { base64url } from 'jose';
+import { Static } from 'runtypes';
+
+import { KeyShare, PrivateKey } from '../types/identity';
+import { DataResponse } from '../types/interfaces';
+import { handleRuntypeFail } from './utility';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Maximum number of shares, share indexes are single nonzero bytes */
+const MAX_SHARES = 255;
+
+/** Exponent and logarithm tables of GF(256) with generator 3 */
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+    EXP[i] = x;
+    EXP[i + 255] = x;
+    LOG[x] = i;
+
+    // multiply by 3, reducing by the AES polynomial
+    x ^= (x << 1) ^ ((x & 0x80) === 0 ? 0 : 0x11B);
+}
+
+/**
+ * Split a Private Key into shares using Shamir's secret sharing.
+ * Any threshold amount of shares can rebuild the key, fewer reveal nothing about it.
+ *
+ * @param key Private Key represented as a JWK object
+ * @param threshold number of shares required to rebuild the key
+ * @param shares total number of shares to create
+ * @returns Success or Failure Message Response including list of key shares
+ */
+function splitPrivateKey(key: Static<typeof PrivateKey>, threshold: number, shares: number): DataResponse {
+    if (Number.isInteger(threshold) === false || Number.isInteger(shares) === false) {
+        return { success: false, message: 'Threshold and shares must be whole numbers' };
+    }
+    if (threshold < 2 || threshold > shares || shares > MAX_SHARES) {
+        return { success: false, message: `Threshold must be at least 2 and no more than the number of shares, which can't exceed ${MAX_SHARES}` };
+    }
+
+    try {
+        const privKey = PrivateKey.check(key);
+        const secret = encoder.encode(JSON.stringify(privKey));
+
+        // each byte of the secret is the constant of its own random polynomial
+        const coefficients = [Buffer.from(secret)];
+        for (let i = 1; i < threshold; i++) coefficients.push(randomBytes(secret.length));
+
+        const keyShares: Static<typeof KeyShare>[] = [];
+        for (let x = 1; x <= shares; x++) {
+            const y = Buffer.alloc(secret.length);
+            for (let b = 0; b < secret.length; b++) {
+                // evaluate polynomial at x using horner's method
+                let val = 0;
+                for (let c = threshold - 1; c >= 0; c--) val = gfMul(val, x) ^ coefficients[c][b];
+                y[b] = val;
+            }
+
+            keyShares.push(KeyShare.check({
+                kid: privKey.kid,
+                threshold,
+                shares,
+                index: x,
+                share: base64url.encode(y),
+            }));
+        }
+
+        return { success: true, message: `Split ${privKey.kid} into ${shares} shares, ${threshold} are required to rebuild it`, data: keyShares };
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+}
+
+/**
+ * Rebuild a Private Key from Shamir secret shares.
+ * All shares must belong to the same key and at least the threshold amount of unique shares are required.
+ *
+ * @param keyShares list of key shares
+ * @returns Success or Failure Message Response including the rebuilt Private Key
+ */
+function combineKeyShares(keyShares: Static<typeof KeyShare>[]): DataResponse {
+    try {
+        if (keyShares.length === 0) return { success: false, message: 'No key shares provided' };
+        keyShares.forEach(s => KeyShare.check(s));
+
+        // ensure shares are compatible and remove duplicates
+        const { kid, threshold } = keyShares[0];
+        if (keyShares.some(s => s.kid !== kid || s.threshold !== threshold)) {
+            return { success: false, message: 'Key shares belong to different keys or splits' };
+        }
+        const unique = keyShares.filter((s, i) => keyShares.findIndex(o => o.index === s.index) === i);
+        if (unique.length < threshold) {
+            return { success: false, message: `${threshold} unique key shares are required to rebuild ${kid}, only ${unique.length} provided` };
+        }
+
+        const points = unique.slice(0, threshold).map(s => ({ x: s.index, y: Buffer.from(base64url.decode(s.share)) }));
+        const length = points[0].y.length;
+        if (points.some(p => p.y.length !== length || p.x < 1 || p.x > MAX_SHARES)) {
+            return { success: false, message: 'Key shares are malformed' };
+        }
+
+        // lagrange interpolation at x = 0 for each byte
+        const secret = Buffer.alloc(length);
+        for (let i = 0; i < points.length; i++) {
+            let basis = 1;
+            for (let j = 0; j < points.length; j++) {
+                if (i === j) continue;
+                basis = gfMul(basis, gfDiv(points[j].x, points[j].x ^ points[i].x));
+            }
+
+            for (let b = 0; b < length; b++) secret[b] ^= gfMul(points[i].y[b], basis);
+        }
+
+        let privKey: Static<typeof PrivateKey>;
+        try {
+            privKey = PrivateKey.check(JSON.parse(decoder.decode(secret)));
+        } catch (error: any) {
+            return { success: false, message: `Unable to rebuild ${kid}, the key shares may be corrupted` };
+        }
+        if (privKey.kid !== kid) return { success: false, message: `Rebuilt key ${privKey.kid} does not match ${kid}` };
+
+        return { success: true, message: `Rebuilt ${kid} from ${points.length} key shares`, data: privKey };
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+}
+
+/**
+ * Multiply two elements of GF(256).
+ *
+ * @param a first element
+ * @param b second element
+ * @returns product
+ */
+function gfMul(a: number, b: number): number {
+    if (a === 0 || b === 0) return 0;
+
+    return EXP[LOG[a] + LOG[b]];
+}
+
+/**
+ * Divide two elements of GF(256).
+ *
+ * @param a dividend
+ * @param b nonzero divisor
+ * @returns quotient
+ */
+function gfDiv(a: number, b: number): number {
+    if (a === 0) return 0;
+
+    return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+export { splitPrivateKey, combineKeyShares }
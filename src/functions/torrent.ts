@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+
+import { Static } from 'runtypes';
+
+import { getNetworkConfig } from './network';
+import { handleRuntypeFail } from './utility';
+import { checkAttachments } from './attachment';
+import { Post } from '../types/post';
+import { NetworkConfig } from '../types/network';
+import { DataResponse } from '../types/interfaces';
+
+const bencode = require('bencode');
+
+/** Length in bytes of each piece, must be a power of 2 */
+const PIECE_LENGTH = 16384;
+
+/** Content endpoints of a network that serve posts by file name */
+const WEB_SEED_ENDPOINTS = ['link', 'list', 'feed'] as const;
+
+/** Trackers and web seeds of a post */
+export interface TorrentSources {
+    announce: string[];
+    urlList: string[];
+}
+
+/** Torrent file data including the BitTorrent infoHash */
+export interface TorrentData {
+    torrent: Buffer;
+    infoHash: string;
+}
+
+export interface TorrentResponse extends DataResponse {
+    data?: TorrentData;
+}
+
+/**
+ * Get the content of a post that is distributed by its torrent.
+ * This is the post info that is signed in its provenance.
+ *
+ * @param post post obj
+ * @returns file name and content of the post
+ */
+function getTorrentContent(post: Static<typeof Post>): { name: string; content: Buffer } {
+    return {
+        name: `${post.infoHash}.json`,
+        content: Buffer.from(JSON.stringify(post.info)),
+    }
+}
+
+/**
+ * Get the trackers and web seeds of the specified networks.
+ * The beacon of each network is used as its tracker and the
+ * link, list, and feed endpoints are used as web seeds.
+ *
+ * @param networks network configs to use
+ * @returns announce urls and web seeds
+ */
+function getTorrentSources(networks: Static<typeof NetworkConfig>[]): TorrentSources {
+    const announce: string[] = [];
+    const urlList: string[] = [];
+
+    networks.forEach(n => {
+        const beacon = n.content.beacon.url.replace(/\/+$/, '');
+        if (announce.includes(`${beacon}/announce`) === false) announce.push(`${beacon}/announce`);
+
+        // trailing slash makes clients append the file name
+        WEB_SEED_ENDPOINTS.forEach(e => {
+            const seed = n.content[e].url.replace(/\/+$/, '') + '/';
+            if (urlList.includes(seed) === false) urlList.push(seed);
+        });
+    });
+
+    return { announce, urlList };
+}
+
+/**
+ * Get the trackers and web seeds of the networks specified by domain.
+ * If no domains are specified the default networks are used,
+ * and if there are none no sources are returned.
+ *
+ * @param domains colon separated list of network domains
+ * @returns announce urls and web seeds
+ */
+async function getNetworkSources(domains: string | false = false): Promise<TorrentSources> {
+    const resp = await getNetworkConfig(domains);
+    if (resp.success === false) return { announce: [], urlList: [] };
+
+    return getTorrentSources(resp.data);
+}
+
+/**
+ * Create the metainfo of a BitTorrent torrent for a post.
+ * Posts without attachments are a single file torrent, otherwise the
+ * torrent is a directory named by the infoHash of the post that contains
+ * the post info followed by the attachments.
+ * The trackers and web seeds are taken from the post and
+ * the created date is used as the creation date.
+ * Web seeds are left out of torrents with attachments, since networks
+ * don't serve the files at the paths of the torrent directory.
+ * The BitTorrent infoHash is the hash of the torrent info and differs from the
+ * infoHash of the post, which is the hash of the signed post info.
+ *
+ * @param post post obj
+ * @param attachments content of each attachment of the post in order
+ * @returns Success or Failure Message Response including the bencoded torrent
+ */
+function createTorrent(post: Static<typeof Post>, attachments: Buffer[] = []): TorrentResponse {
+    try {
+        Post.check(post);
+        const { name, content } = getTorrentContent(post);
+
+        // ensure attachment content is what was signed
+        const described = post.info.publicSquare.package.attachments || [];
+        const aResp = checkAttachments(described, attachments);
+        if (aResp.success === false) return { success: false, message: aResp.message };
+
+        // hash each piece of the content
+        const payload = Buffer.concat([content, ...attachments]);
+        const pieces: Buffer[] = [];
+        for (let i = 0; i < payload.length; i += PIECE_LENGTH) {
+            pieces.push(createHash('sha1').update(payload.slice(i, i + PIECE_LENGTH)).digest());
+        }
+
+        const info: { [key: string]: any } = {
+            name,
+            'piece length': PIECE_LENGTH,
+            pieces: Buffer.concat(pieces),
+        };
+        if (described.length === 0) {
+            info.length = content.length;
+        } else {
+            info.name = post.infoHash;
+            info.files = [
+                { length: content.length, path: [name] },
+                ...described.map(a => {
+                    return { length: a.length, path: [a.name] }
+                }),
+            ];
+        }
+
+        const announce = post.announce.filter(a => a !== '');
+        // web seeds only serve single file torrents
+        const urlList = described.length === 0 ? post.urlList.filter(u => u !== '') : [];
+
+        const metainfo: { [key: string]: any } = {
+            info,
+            'created by': post.createdBy,
+            'creation date': Math.floor(post.created / 1000),
+            comment: post.info.publicSquare.package.title,
+        };
+        if (announce.length > 0) {
+            metainfo.announce = announce[0];
+            metainfo['announce-list'] = announce.map(a => [a]);
+        }
+        if (urlList.length > 0) metainfo['url-list'] = urlList;
+
+        const infoHash = createHash('sha1').update(bencode.encode(info)).digest('hex');
+
+        return {
+            success: true,
+            message: `Successfully created torrent with infoHash ${infoHash}`,
+            data: {
+                torrent: bencode.encode(metainfo),
+                infoHash,
+            },
+        }
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg }
+    }
+}
+
+export { getTorrentContent, getTorrentSources, getNetworkSources, createTorrent }
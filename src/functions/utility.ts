@@ -477,14 +477,25 @@ async function getRedirectUrl(url: string, proxyConfig: ProxyConfig = false, for
     }
 }
 
-function convertSinceToTimestamp(since = ''): number {
-    if (since === '') return Date.now();
+/**
+ * Convert a date or a duration relative to now to a timestamp.
+ * Dates starting with YYYY-MM-DD are parsed as is,
+ * anything else is treated as a duration before or after now, ie 7d.
+ *
+ * @param time date or duration string
+ * @param direction whether a duration is before or after now
+ * @returns timestamp in ms or false if it can't be parsed
+ */
+function convertToTimestamp(time: string, direction: 'past' | 'future'): number | false {
+    if (/^\d{4}-\d{2}-\d{2}/.test(time)) {
+        const ts = Date.parse(time);
+        return isNaN(ts) ? false : ts;
+    }
 
-    // calculate new timestamp
-    const diff = parseDuration(since);
-    const ts = Date.now() - diff;
+    const diff = parseDuration(time);
+    if (typeof diff !== 'number' || isNaN(diff)) return false;
 
-    return ts;
+    return direction === 'past' ? Date.now() - diff : Date.now() + diff;
 }
 
-export { createFiles, deleteFiles, deleteRegFiles, retrieveFiles, retrieveRegFiles, handleRuntypeFail, appendLogFile, generateLogger, concurrentPromises, getRedirectUrl, convertSinceToTimestamp }
+export { createFiles, deleteFiles, deleteRegFiles, retrieveFiles, retrieveRegFiles, handleRuntypeFail, appendLogFile, generateLogger, concurrentPromises, getRedirectUrl, convertToTimestamp }
@@ -31,7 +31,7 @@ async function verifyKeyPairs(pubKeyObj: Static<typeof PublicKey>, privKeyObj: S
     const privKey = await importJWK(privKeyObj);
 
     const content = 'Test text string';
-    const header = { alg: 'ES384' };
+    const header = { alg: privKeyObj.alg };
 
     // sign string and then decrypt it to verify keys are a valid pair
     const jws = await new CompactSign(encoder.encode(content)).setProtectedHeader(header).sign(privKey);
@@ -0,0 +1,176 @@
+import { importJWK, SignJWT, compactVerify, decodeProtectedHeader } from 'jose';
+import { Static } from 'runtypes';
+
+import { checkKeyValidity, getDid, isKeyRevoked, parseBareDid } from './identity';
+import { handleRuntypeFail } from './utility';
+import { recordSignature } from './auditlog';
+import { CredentialClaims } from '../types/vc';
+import { KeyPair } from '../types/identity';
+import { KID } from '../types/base-types';
+import { DataResponse, ListResponse } from '../types/interfaces';
+
+const decoder = new TextDecoder();
+
+const CREDENTIALS_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+
+/** Verifiable Credential Options */
+export interface CredentialOptions {
+    subject?: string;
+    types?: string[];
+    expires?: number;
+    id?: string;
+}
+
+/**
+ * Create a W3C Verifiable Credential and sign it as a JWT.
+ * The DID of the key pair is the issuer and the claims are put in credentialSubject.
+ * The JWT registered claims mirror the credential, ie nbf is the issuanceDate.
+ *
+ * @param claims claims about the subject
+ * @param keyPair obj containing keys to sign with
+ * @param options subject DID, additional types, expiry timestamp in ms, and id of the credential
+ * @returns Success or Failure Message Response including the JWT and claims as data
+ */
+async function createCredential(claims: { [key: string]: unknown }, keyPair: Static<typeof KeyPair>, options: CredentialOptions = {}): Promise<DataResponse> {
+    const issuer = parseBareDid(keyPair.kid);
+    if (issuer === false) return { success: false, message: `Unable to parse bare did from kid ${keyPair.kid}` };
+
+    // refuse keys outside of their validity period
+    const validity = checkKeyValidity(keyPair.public || keyPair.private);
+    if (validity.success === false) return validity;
+
+    const now = Date.now();
+    if (typeof options.expires === 'number' && options.expires <= now) {
+        return { success: false, message: `Credential would expire at ${new Date(options.expires).toISOString()}, before it is issued` };
+    }
+
+    try {
+        const credentialSubject = typeof options.subject === 'string' ? { id: options.subject, ...claims } : claims;
+        const payload = CredentialClaims.check({
+            vc: {
+                '@context': [CREDENTIALS_CONTEXT],
+                id: options.id,
+                type: ['VerifiableCredential', ...(options.types || [])],
+                issuer,
+                issuanceDate: new Date(now).toISOString(),
+                expirationDate: typeof options.expires === 'number' ? new Date(options.expires).toISOString() : undefined,
+                credentialSubject,
+            },
+            iss: issuer,
+            sub: options.subject,
+            jti: options.id,
+            nbf: Math.floor(now / 1000),
+            exp: typeof options.expires === 'number' ? Math.floor(options.expires / 1000) : undefined,
+        });
+
+        // sign claims without undefined values
+        const content = JSON.stringify(payload);
+        const jwt = await new SignJWT(JSON.parse(content))
+            .setProtectedHeader({
+                alg: keyPair.private.alg,
+                kid: keyPair.kid,
+                typ: 'JWT',
+            })
+            .sign(await importJWK(keyPair.private));
+        recordSignature(keyPair.kid, 'credential', content);
+
+        return { success: true, message: `Successfully issued credential from ${keyPair.kid}`, data: { jwt, claims: payload } };
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: msg };
+    }
+}
+
+/**
+ * Verify a Verifiable Credential JWT.
+ * The issuer DID is resolved with getDid to check the signature, and the
+ * expiry and revocation status of the credential and its key are checked.
+ *
+ * @param jwt compact JWT string
+ * @returns Success or Failure Message Response including the outcome of each check
+ */
+async function verifyCredential(jwt: string): Promise<ListResponse> {
+    const items: DataResponse[] = [];
+
+    // resolve the DID doc of the key that signed the JWT
+    let kid: Static<typeof KID>;
+    try {
+        kid = KID.check(decodeProtectedHeader(jwt).kid);
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        return { success: false, message: 'Unable to read the JWT header because: ' + msg, items };
+    }
+
+    const bdid = parseBareDid(kid);
+    if (bdid === false) return { success: false, message: `Unable to parse bare did from kid ${kid}`, items };
+
+    const dResp = await getDid(bdid);
+    if (dResp.success === false) {
+        const msg = `Unable to resolve DID doc for ${kid} because: ${dResp.error.message}`;
+        items.push({ success: false, message: msg });
+        return { success: false, message: msg, items };
+    }
+    const didDoc = dResp.didDoc;
+
+    const key = didDoc.psqr.publicKeys.find(k => k.kid === kid);
+    if (typeof key === 'undefined') {
+        const msg = `Key ${kid} is not listed in the DID doc publicKeys`;
+        items.push({ success: false, message: msg });
+        return { success: false, message: msg, items };
+    }
+    items.push({ success: true, message: `Key ${kid} is listed in the DID doc publicKeys`, data: key });
+
+    // verify signature and extract claims
+    let claims: Static<typeof CredentialClaims>;
+    try {
+        const { payload } = await compactVerify(jwt, await importJWK(key));
+        claims = CredentialClaims.check(JSON.parse(decoder.decode(payload)));
+        items.push({ success: true, message: `JWT signature is valid for ${kid}`, data: claims });
+    } catch (error: any) {
+        const msg = handleRuntypeFail(error);
+        items.push({ success: false, message: 'JWT signature is invalid because: ' + msg });
+        return { success: false, message: msg, items };
+    }
+
+    // ensure the signing key belongs to the issuer
+    if (claims.iss === bdid && claims.vc.issuer === bdid) {
+        items.push({ success: true, message: `Credential was issued by ${bdid}` });
+    } else {
+        items.push({ success: false, message: `Credential issuer ${claims.vc.issuer} does not match the DID of the key ${bdid}` });
+    }
+
+    // check the credential is currently valid
+    const now = Date.now();
+    const issued = claims.nbf * 1000;
+    if (now < issued) {
+        items.push({ success: false, message: `Credential is not valid until ${new Date(issued).toISOString()}` });
+    } else if (typeof claims.exp === 'number' && now >= claims.exp * 1000) {
+        items.push({ success: false, message: `Credential expired at ${new Date(claims.exp * 1000).toISOString()}` });
+    } else {
+        items.push({ success: true, message: 'Credential has not expired' });
+    }
+
+    // reject credentials issued by keys that have been revoked or outside of their validity period
+    if (isKeyRevoked(didDoc, kid, issued)) {
+        items.push({ success: false, message: `Key ${kid} was revoked before the credential was issued` });
+    } else if (isKeyRevoked(didDoc, kid, now)) {
+        const revoked = (didDoc.psqr.revoked || []).filter(r => r.kid === kid).map(r => r.revoked);
+        items.push({ success: false, message: `Key ${kid} was revoked at ${new Date(Math.min(...revoked)).toISOString()} after the credential was issued` });
+    } else {
+        items.push({ success: true, message: `Key ${kid} has not been revoked` });
+    }
+    const validity = checkKeyValidity(key, issued);
+    if (validity.success === false) validity.message = 'Credential was issued outside of the key validity period: ' + validity.message;
+    items.push(validity);
+
+    // evaluate verification success
+    const passed = items.filter(i => i.success);
+    const ratio = passed.length + '/' + items.length;
+    if (passed.length < items.length) {
+        return { success: false, message: `Verification failed for credential from ${kid}. ${ratio} checks passed.`, items };
+    }
+
+    return { success: true, message: `Successfully verified credential from ${kid}. ${ratio} checks passed.`, items };
+}
+
+export { createCredential, verifyCredential }
@@ -0,0 +1,154 @@
+import { Static } from 'runtypes';
+
+import { Did, W3cDid } from '../types/identity';
+import { CURVE_ALGS } from './keyformat';
+
+/** Contexts of a DID PSQR doc */
+const PSQR_CONTEXTS = [
+    'https://www.w3.org/ns/did/v1',
+    'https://vpsqr.com/ns/did-psqr/v1',
+];
+
+/** Context of JsonWebKey2020 verification methods */
+const JWS_CONTEXT = 'https://w3id.org/security/suites/jws-2020/v1';
+
+/** Verification relationships of each psqr grant */
+const GRANT_RELATIONSHIPS: { [grant: string]: Array<'authentication' | 'assertionMethod' | 'capabilityInvocation'> } = {
+    admin: ['authentication', 'capabilityInvocation'],
+    publish: ['assertionMethod'],
+    provenance: ['assertionMethod'],
+    curate: ['assertionMethod'],
+};
+
+/** Psqr grants of each verification relationship, used when there is no psqr block */
+const RELATIONSHIP_GRANTS: { [relationship: string]: string[] } = {
+    authentication: ['admin'],
+    capabilityInvocation: ['admin'],
+    assertionMethod: ['publish', 'provenance'],
+};
+
+/**
+ * Convert a DID PSQR doc into a standard W3C DID doc.
+ * Public keys are mapped to JsonWebKey2020 verification methods
+ * and permissions to verification relationships. Revoked keys are left out
+ * of everything but the psqr block, which is kept alongside.
+ *
+ * @param didDoc DID PSQR doc
+ * @returns W3C DID doc
+ */
+function toW3cDid(didDoc: Static<typeof Did>): Static<typeof W3cDid> {
+    const doc = Did.check(didDoc);
+    const revoked = (doc.psqr.revoked || []).filter(r => r.revoked <= Date.now()).map(r => r.kid);
+    const keys = doc.psqr.publicKeys.filter(k => revoked.includes(k.kid) === false);
+
+    const relationships = {
+        authentication: [] as string[],
+        assertionMethod: [] as string[],
+        capabilityInvocation: [] as string[],
+    };
+    doc.psqr.permissions.forEach(p => {
+        if (keys.some(k => k.kid === p.kid) === false) return;
+
+        p.grant.forEach(g => {
+            (GRANT_RELATIONSHIPS[g] || []).forEach(r => {
+                if (relationships[r].includes(p.kid) === false) relationships[r].push(p.kid);
+            });
+        });
+    });
+
+    return W3cDid.check({
+        '@context': [PSQR_CONTEXTS[0], JWS_CONTEXT, PSQR_CONTEXTS[1]],
+        id: doc.id,
+        verificationMethod: keys.map(k => {
+            const publicKeyJwk: { [key: string]: string } = { kty: k.kty, crv: k.crv, x: k.x };
+            if (typeof k.y === 'string') publicKeyJwk.y = k.y;
+
+            return {
+                id: k.kid,
+                type: 'JsonWebKey2020',
+                controller: doc.id,
+                publicKeyJwk,
+            };
+        }),
+        ...relationships,
+        psqr: doc.psqr,
+    });
+}
+
+/**
+ * Convert a W3C DID doc into a DID PSQR doc.
+ * If the doc has a psqr block it is used as is. Otherwise public keys
+ * are mapped from JsonWebKey2020 verification methods and permissions
+ * from verification relationships.
+ * DID PSQR docs are accepted as well.
+ *
+ * @param doc W3C or PSQR DID doc
+ * @returns DID PSQR doc
+ */
+function fromW3cDid(doc: any): Static<typeof Did> {
+    if (typeof doc !== 'object' || doc === null || typeof doc.id !== 'string') throw new TypeError('Invalid DID doc, an id is required');
+    const did = doc.id;
+
+    if (typeof doc.psqr === 'object') {
+        return Did.check({
+            '@context': PSQR_CONTEXTS,
+            id: did,
+            psqr: doc.psqr,
+        });
+    }
+
+    // resolve relative references against the did
+    const absolute = (ref: string) => ref.startsWith('#') ? did + ref : ref;
+
+    // include verification methods embedded in relationships
+    const methods: any[] = Array.isArray(doc.verificationMethod) ? [...doc.verificationMethod] : [];
+    Object.keys(RELATIONSHIP_GRANTS).forEach(r => {
+        const refs: any[] = Array.isArray(doc[r]) ? doc[r] : [];
+        refs.forEach(ref => {
+            if (typeof ref === 'object' && methods.every(m => absolute(m.id) !== absolute(ref.id))) methods.push(ref);
+        });
+    });
+
+    const publicKeys = methods.map(m => {
+        const jwk = m.publicKeyJwk;
+        if (typeof jwk !== 'object' || jwk === null) throw new TypeError(`Verification method ${m.id} has no publicKeyJwk, only JsonWebKey2020 is supported`);
+
+        return {
+            crv: jwk.crv,
+            alg: CURVE_ALGS[jwk.crv],
+            kty: jwk.kty,
+            kid: absolute(m.id),
+            x: jwk.x,
+            y: jwk.y,
+        };
+    });
+
+    const permissions: { kid: string; grant: string[] }[] = [];
+    Object.keys(RELATIONSHIP_GRANTS).forEach(r => {
+        const refs: any[] = Array.isArray(doc[r]) ? doc[r] : [];
+        refs.forEach(ref => {
+            const kid = absolute(typeof ref === 'string' ? ref : ref.id);
+            let perm = permissions.find(p => p.kid === kid);
+            if (typeof perm === 'undefined') {
+                perm = { kid, grant: [] };
+                permissions.push(perm);
+            }
+
+            RELATIONSHIP_GRANTS[r].forEach(g => {
+                if (perm?.grant.includes(g) === false) perm.grant.push(g);
+            });
+        });
+    });
+
+    return Did.check({
+        '@context': PSQR_CONTEXTS,
+        id: did,
+        psqr: {
+            publicIdentity: { name: did },
+            publicKeys,
+            permissions,
+        },
+    });
+}
+
+export { toW3cDid, fromW3cDid }
@@ -18,7 +18,7 @@ const Url = String.withConstraint(
  * @returns true or error message
 */
 const DID = String.withConstraint(
-    str => /did:(web|psqr):[A-Za-z0-9.\-_:/%]+$/g.test(str) || 'Invalid DID specified. Expected format: did:(psqr|web):{hostname}(/|:){path}'
+    str => /did:(web|psqr|key):[A-Za-z0-9.\-_:/%]+$/g.test(str) || 'Invalid DID specified. Expected format: did:(psqr|web):{hostname}(/|:){path} or did:key:{key}'
 );
 
 /** Validate W3C Standard DID with WEB Method
@@ -35,11 +35,18 @@ const DID_PSQR = String.withConstraint(
     str => /did:psqr:[A-Za-z0-9.\-_/%]+$/g.test(str) || 'Invalid DID PSQR specified. Expected format: did:psqr:{hostname}/{path}'
 );
 
+/** Validate W3C Standard DID with KEY Method
+ * @returns true or error message
+*/
+const DID_KEY = String.withConstraint(
+    str => /did:key:z[1-9A-HJ-NP-Za-km-z]+$/g.test(str) || 'Invalid DID KEY specified. Expected format: did:key:{key}'
+);
+
 /** Validate W3C Standard DID with Key
  * @returns true or error message
 */
 const KID = String.withConstraint(
-    str => /did:(web|psqr):[A-Za-z0-9.\-_:/%]+#\w+$/g.test(str) || 'Invalid KID specified. Expected format: did:(psqr|web):{hostname}(/|:){path}#{keyId}'
+    str => /did:(web|psqr|key):[A-Za-z0-9.\-_:/%]+#\w+$/g.test(str) || 'Invalid KID specified. Expected format: did:(psqr|web):{hostname}(/|:){path}#{keyId} or did:key:{key}#{key}'
 );
 
 /** Validate W3C Standard DID with WEB Method and Key
@@ -80,6 +87,8 @@ const ValueFilters = Record({
     image: ArrayType(String).optional(),
     canonicalUrl: ArrayType(Url).optional(),
     reply: ArrayType(String).optional(),
+    amplify: ArrayType(String).optional(),
+    like: ArrayType(String).optional(),
 })
 
-export {Url, DID, DID_PSQR, DID_WEB, KID, KID_PSQR, KID_WEB, CrawlFilters, ValueFilters}
+export {Url, DID, DID_PSQR, DID_WEB, DID_KEY, KID, KID_PSQR, KID_WEB, CrawlFilters, ValueFilters}
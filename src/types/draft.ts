@@ -0,0 +1,19 @@
+import { Record, Array as ArrayType, Number, String } from 'runtypes';
+
+import { PostSkeleton } from './post';
+
+/** Locally Stored Post Draft */
+const Draft = Record({
+    id: String,
+    skeleton: PostSkeleton,
+    attach: ArrayType(String),
+    revisions: ArrayType(Number).withConstraint(
+        revs => revs.length > 0 || 'At least one revision is required'
+    ),
+    published: Record({
+        hash: String,
+        timestamp: Number,
+    }).optional(),
+});
+
+export { Draft }
@@ -1,14 +1,39 @@
-import { Record, Array as ArrayType, Number, String, Literal, Union } from 'runtypes';
+import { Record, Array as ArrayType, Number, String, Literal, Union, Boolean } from 'runtypes';
 import { DID, KID, Url } from './base-types';
 
+/** Supported Key Algorithms */
+const KeyAlg = Union(
+    Literal('ES384'),
+    Literal('ES256'),
+    Literal('EdDSA')
+);
+
+/** Supported Key File Formats */
+const KeyFormat = Union(
+    Literal('jwk'),
+    Literal('pem'),
+    Literal('jwks')
+);
+
 /** Public Cryptographic Key */
 const PublicKey = Record({
-    crv: Literal('P-384'),
-    alg: Literal('ES384'),
-    kty: Literal('EC'),
+    crv: Union(Literal('P-384'), Literal('P-256'), Literal('Ed25519')),
+    alg: KeyAlg,
+    kty: Union(Literal('EC'), Literal('OKP')),
     kid: KID,
     x: String,
-    y: String,
+    y: String.optional(),
+    notBefore: Number.optional(),
+    expires: Number.optional(),
+}).withConstraint(key => {
+    switch (key.alg) {
+        case 'ES384':
+            return (key.kty === 'EC' && key.crv === 'P-384' && typeof key.y === 'string') || 'ES384 keys must be EC keys on curve P-384';
+        case 'ES256':
+            return (key.kty === 'EC' && key.crv === 'P-256' && typeof key.y === 'string') || 'ES256 keys must be EC keys on curve P-256';
+        default:
+            return (key.kty === 'OKP' && key.crv === 'Ed25519') || 'EdDSA keys must be OKP keys on curve Ed25519';
+    }
 });
 
 /** Private Cryptographic Key */
@@ -18,6 +43,18 @@ const PrivateKey = PublicKey.And(
     })
 );
 
+/** Private Cryptographic Key encrypted at rest as a flattened JWE */
+const EncryptedKey = Record({
+    kid: KID,
+    jwe: Record({
+        protected: String,
+        encrypted_key: String,
+        iv: String,
+        ciphertext: String,
+        tag: String,
+    }),
+});
+
 /** Public Personal Information */
 const PublicInfo = Record({
     name: String,
@@ -42,10 +79,74 @@ const Did = Record({
             kid: KID,
             grant: ArrayType(String),
         })),
+        revoked: ArrayType(Record({
+            kid: KID,
+            revoked: Number,
+            replacedBy: KID.optional(),
+        })).optional(),
         updated: Number.optional(),
     }),
 })
 
+/** JsonWebKey2020 Verification Method of a W3C DID doc */
+const VerificationMethod = Record({
+    id: KID,
+    type: Literal('JsonWebKey2020'),
+    controller: DID,
+    publicKeyJwk: Record({
+        kty: String,
+        crv: String,
+        x: String,
+        y: String.optional(),
+    }),
+})
+
+/** Standard W3C DID doc with the psqr block alongside */
+const W3cDid = Record({
+    '@context': ArrayType(String),
+    id: DID,
+    verificationMethod: ArrayType(VerificationMethod),
+    authentication: ArrayType(KID),
+    assertionMethod: ArrayType(KID),
+    capabilityInvocation: ArrayType(KID),
+    psqr: Did.fields.psqr,
+})
+
+/** Cached DID doc of a resolved foreign identity */
+const DidCacheEntry = Record({
+    did: DID,
+    didDoc: Did,
+    fetched: Number,
+    pinned: Boolean,
+})
+
+/** Shamir secret share of a Private Key */
+const KeyShare = Record({
+    kid: KID,
+    threshold: Number,
+    shares: Number,
+    index: Number,
+    share: String,
+})
+
+/** Saved version of a local DID doc */
+const DidVersion = Record({
+    did: DID,
+    updated: Number,
+    saved: Number,
+    didDoc: Did,
+})
+
+/** Audit log record of a signature made with a local key */
+const SigningRecord = Record({
+    kid: KID,
+    operation: String,
+    hash: String,
+    infoHash: String.optional(),
+    command: String,
+    timestamp: Number,
+})
+
 /** Key Pair - DID with Key, Private and Public Keys */
 const KeyPair = Record({
     kid: KID,
@@ -60,4 +161,4 @@ const Identity = Record({
     keyPairs: ArrayType(KeyPair),
 })
 
-export { PublicKey, PrivateKey, PublicInfo, Did, Identity, KeyPair };
+export { KeyAlg, KeyFormat, PublicKey, PrivateKey, EncryptedKey, KeyShare, PublicInfo, Did, VerificationMethod, W3cDid, DidCacheEntry, DidVersion, SigningRecord, Identity, KeyPair };
@@ -3,6 +3,18 @@ import { Url } from './base-types';
 
 import { PublicKey, PublicInfo } from './identity';
 
+/** Article Attachment with sha256 digest of its content */
+const Attachment = Record({
+    name: String.withConstraint(
+        str => (/^[^/\\\0]+$/.test(str) && str !== '.' && str !== '..') || 'Invalid attachment name specified, expected a file name without a path'
+    ),
+    type: String,
+    length: Number,
+    hash: String.withConstraint(
+        str => /^[\da-f]{64}$/.test(str) || 'Invalid sha256 hash specified'
+    ),
+});
+
 /** Article Package Information */
 const publicSquare = Record({
     package: Record({
@@ -15,6 +27,7 @@ const publicSquare = Record({
         image: String,
         body: String,
         canonicalUrl: Url,
+        attachments: ArrayType(Attachment).optional(),
         references: Record({
             content: Record({
                 reply: String,
@@ -66,6 +79,9 @@ const PostSkeleton = Record({
     image: String,
     canonicalUrl: Url,
     reply: String.optional(),
+    amplify: String.optional(),
+    like: String.optional(),
+    attachments: ArrayType(Attachment).optional(),
 });
 
 /** Json Web Signature of Article
@@ -77,4 +93,15 @@ const JwsPost = Record({
     ),
 })
 
-export { Post, PostSkeleton, JwsPost }
+/** Json Web Signature of Article with multiple signers in General JSON Serialization */
+const GeneralJwsPost = Record({
+    payload: String,
+    signatures: ArrayType(Record({
+        protected: String,
+        signature: String,
+    })).withConstraint(
+        sigs => sigs.length > 0 || 'At least one signature is required'
+    ),
+})
+
+export { Post, PostSkeleton, JwsPost, GeneralJwsPost, Attachment }
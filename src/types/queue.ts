@@ -0,0 +1,34 @@
+import { Record, Array as ArrayType, Number, String, Boolean, Literal, Union } from 'runtypes';
+
+import { JwsPost, GeneralJwsPost } from './post';
+
+/** Status of a Scheduled Post */
+const QueueStatus = Union(
+    Literal('pending'),
+    Literal('published'),
+    Literal('partial'),
+    Literal('failed'),
+    Literal('cancelled')
+);
+
+/** Outcome of Publishing to a Broadcaster */
+const BroadcastResult = Record({
+    broadcaster: String,
+    success: Boolean,
+    message: String,
+});
+
+/** Signed Post Scheduled for Publishing */
+const QueueItem = Record({
+    hash: String,
+    jws: Union(JwsPost, GeneralJwsPost),
+    broadcaster: String,
+    publishAt: Number,
+    created: Number,
+    status: QueueStatus,
+    attempts: Number,
+    results: ArrayType(BroadcastResult),
+    publishedAt: Number.optional(),
+});
+
+export { QueueStatus, BroadcastResult, QueueItem }
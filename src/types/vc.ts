@@ -0,0 +1,31 @@
+import { Record, Array as ArrayType, Number, String, Dictionary, Unknown } from 'runtypes';
+import { DID } from './base-types';
+
+/** W3C Verifiable Credential
+ * @returns true or error message
+ */
+const Credential = Record({
+    '@context': ArrayType(String).withConstraint(
+        ctx => ctx[0] === 'https://www.w3.org/2018/credentials/v1' || 'The first @context must be https://www.w3.org/2018/credentials/v1'
+    ),
+    id: String.optional(),
+    type: ArrayType(String).withConstraint(
+        type => type.includes('VerifiableCredential') || 'The type must include VerifiableCredential'
+    ),
+    issuer: DID,
+    issuanceDate: String,
+    expirationDate: String.optional(),
+    credentialSubject: Dictionary(Unknown, String),
+})
+
+/** JWT claims of a Verifiable Credential signed as a JWT */
+const CredentialClaims = Record({
+    vc: Credential,
+    iss: DID,
+    sub: String.optional(),
+    jti: String.optional(),
+    nbf: Number,
+    exp: Number.optional(),
+})
+
+export { Credential, CredentialClaims }